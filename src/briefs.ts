@@ -0,0 +1,263 @@
+// Content briefs for a report cluster: outlines of the top-ranking pages, and the LLM prompt and Markdown rendering of the brief
+import { ScrapedPage } from './providers/index.js';
+import { KeywordCluster, SerpUrl } from './types.js';
+
+export interface PageHeading {
+  level: number;
+  text: string;
+}
+
+// A top-ranking page as seen by the brief: its place in the SERPs and the structure of its content
+export interface CompetitorPage {
+  url: string;
+  domain: string;
+  position: number;
+  title: string;
+  word_count: number;
+  headings: PageHeading[];
+}
+
+export interface BriefSection {
+  heading: string;
+  subheadings: string[];
+  notes: string;
+}
+
+export interface ContentBrief {
+  cluster_id: number;
+  main_keyword: string;
+  theme: string;
+  generated_at: string;
+  title: string;
+  meta_description: string;
+  target_keywords: {
+    primary: string;
+    secondary: { keyword: string; search_volume: number }[];
+  };
+  outline: BriefSection[];
+  questions: string[];
+  competitor_angles: { domain: string; angle: string }[];
+  recommended_word_count: number;
+  competitor_word_counts: { min: number; median: number; max: number } | null;
+  pages_analyzed: CompetitorPage[];
+}
+
+// Used when neither the competitor pages nor the LLM give a usable length
+const DEFAULT_WORD_COUNT = 1500;
+// Headings per page passed to the LLM; long pages would otherwise crowd out the rest of the prompt
+const MAX_PROMPT_HEADINGS = 25;
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function extractPageOutline(page: ScrapedPage, serpUrl: SerpUrl): CompetitorPage {
+  const headings: PageHeading[] = [];
+  let words = 0;
+
+  for (const line of (page.markdown || '').split('\n')) {
+    const heading = line.match(/^(#{1,4})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const text = stripInlineMarkdown(heading[2]);
+      if (text) headings.push({ level: heading[1].length, text });
+    }
+    // Approximate: markdown syntax, links and image references are not counted
+    words += stripInlineMarkdown(line.replace(/^[#>\-*+|\s\d.]+/, '')).split(' ').filter(word => /\w/.test(word)).length;
+  }
+
+  return {
+    url: serpUrl.url,
+    domain: serpUrl.domain,
+    position: serpUrl.position,
+    title: page.title || serpUrl.title,
+    word_count: words,
+    headings
+  };
+}
+
+export function wordCountStats(pages: CompetitorPage[]): ContentBrief['competitor_word_counts'] {
+  const counts = pages.map(page => page.word_count).filter(count => count > 0).sort((a, b) => a - b);
+  if (counts.length === 0) return null;
+  return { min: counts[0], median: counts[Math.floor(counts.length / 2)], max: counts[counts.length - 1] };
+}
+
+// People Also Ask questions shown for the cluster's keywords
+export function clusterQuestions(cluster: KeywordCluster): string[] {
+  const seen = new Set<string>();
+  return cluster.keywords.flatMap(kw => kw.serp_features?.people_also_ask || []).filter(question => {
+    const key = question.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function buildBriefPrompt(cluster: KeywordCluster, businessType: string, pages: CompetitorPage[], questions: string[]): string {
+  const keywords = [...cluster.keywords]
+    .sort((a, b) => b.search_volume - a.search_volume)
+    .slice(0, 20)
+    .map(kw => `- ${kw.keyword} (${kw.search_volume.toLocaleString()} searches/month${kw.intent ? `, ${kw.intent.primary} intent` : ''})`)
+    .join('\n');
+
+  const pageOutlines = pages.map(page => {
+    const outline = page.headings.slice(0, MAX_PROMPT_HEADINGS).map(h => `${'  '.repeat(Math.max(0, h.level - 1))}- H${h.level}: ${h.text}`).join('\n');
+    return `#${page.position} ${page.domain} - "${page.title}" (~${page.word_count.toLocaleString()} words)\n${outline || '  (no headings found)'}`;
+  }).join('\n\n');
+
+  const stats = wordCountStats(pages);
+
+  return `Create a content brief for a ${businessType} website that wants to rank for the keyword cluster "${cluster.main_keyword}".
+
+**TARGET KEYWORDS (by monthly search volume):**
+${keywords}
+
+**TOP-RANKING PAGES AND THEIR OUTLINES:**
+${pageOutlines || 'No competitor pages could be analyzed; base the brief on the keywords.'}
+${stats ? `\nCompetitor length: ${stats.min.toLocaleString()}-${stats.max.toLocaleString()} words (median ${stats.median.toLocaleString()}).\n` : ''}
+**QUESTIONS SEARCHERS ASK (People Also Ask):**
+${questions.length > 0 ? questions.map(q => `- ${q}`).join('\n') : 'None recorded.'}
+
+The brief must:
+- Cover what the top-ranking pages cover, then add what they miss
+- Use the primary keyword in the H1 and work the secondary keywords into the H2s naturally
+- Answer the searchers' questions, adding any the pages above leave unanswered
+- Name the angle each competitor takes so the writer can differentiate
+
+Return ONLY a JSON object with this structure, no explanations:
+{
+  "title": "H1 for the page",
+  "meta_description": "under 160 characters",
+  "primary_keyword": "keyword",
+  "secondary_keywords": ["keyword", "..."],
+  "outline": [{ "heading": "H2", "subheadings": ["H3", "..."], "notes": "what this section must cover" }],
+  "questions": ["question to answer", "..."],
+  "competitor_angles": [{ "domain": "example.com", "angle": "how this page approaches the topic" }],
+  "recommended_word_count": 1800
+}`;
+}
+
+function parseJsonObject(content: string): any {
+  const text = content.replace(/```(json)?/g, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('The LLM response did not contain a JSON brief.');
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`The LLM returned a malformed brief: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim()) : [];
+
+// Combine the LLM's answer with the data it was given; search volumes and competitor stats come from the report, not the LLM
+export function buildContentBrief(
+  cluster: KeywordCluster,
+  pages: CompetitorPage[],
+  questions: string[],
+  completion: string
+): ContentBrief {
+  const parsed = parseJsonObject(completion);
+  const volumes = new Map(cluster.keywords.map(kw => [kw.keyword.toLowerCase(), kw.search_volume]));
+  const primary = typeof parsed.primary_keyword === 'string' && parsed.primary_keyword.trim() ? parsed.primary_keyword.trim() : cluster.main_keyword;
+  const stats = wordCountStats(pages);
+  const suggestedLength = Number(parsed.recommended_word_count);
+
+  const seenQuestions = new Set<string>();
+  const allQuestions = [...questions, ...strings(parsed.questions)].filter(question => {
+    const key = question.toLowerCase();
+    if (seenQuestions.has(key)) return false;
+    seenQuestions.add(key);
+    return true;
+  });
+
+  return {
+    cluster_id: cluster.cluster_id,
+    main_keyword: cluster.main_keyword,
+    theme: cluster.theme,
+    generated_at: new Date().toISOString(),
+    title: typeof parsed.title === 'string' && parsed.title.trim() ? parsed.title.trim() : cluster.main_keyword,
+    meta_description: typeof parsed.meta_description === 'string' ? parsed.meta_description.trim() : '',
+    target_keywords: {
+      primary,
+      secondary: strings(parsed.secondary_keywords)
+        .filter(keyword => keyword.toLowerCase() !== primary.toLowerCase())
+        .map(keyword => ({ keyword, search_volume: volumes.get(keyword.toLowerCase()) ?? 0 }))
+    },
+    outline: (Array.isArray(parsed.outline) ? parsed.outline : [])
+      .filter((section: any) => section && typeof section.heading === 'string')
+      .map((section: any) => ({
+        heading: section.heading.trim(),
+        subheadings: strings(section.subheadings),
+        notes: typeof section.notes === 'string' ? section.notes.trim() : ''
+      })),
+    questions: allQuestions,
+    competitor_angles: (Array.isArray(parsed.competitor_angles) ? parsed.competitor_angles : [])
+      .filter((entry: any) => entry && typeof entry.domain === 'string' && typeof entry.angle === 'string')
+      .map((entry: any) => ({ domain: entry.domain.trim(), angle: entry.angle.trim() })),
+    recommended_word_count: suggestedLength > 0
+      ? Math.round(suggestedLength / 100) * 100
+      : stats ? Math.round(stats.median * 1.1 / 100) * 100 : DEFAULT_WORD_COUNT,
+    competitor_word_counts: stats,
+    pages_analyzed: pages
+  };
+}
+
+export function briefToMarkdown(brief: ContentBrief): string {
+  const lines: string[] = [
+    `# Content Brief: ${brief.main_keyword}`,
+    '',
+    `**Proposed H1:** ${brief.title}`,
+  ];
+  if (brief.meta_description) {
+    lines.push(`**Meta description:** ${brief.meta_description}`);
+  }
+  lines.push(
+    `**Recommended length:** ~${brief.recommended_word_count.toLocaleString()} words` +
+      (brief.competitor_word_counts ? ` (top pages: ${brief.competitor_word_counts.min.toLocaleString()}-${brief.competitor_word_counts.max.toLocaleString()}, median ${brief.competitor_word_counts.median.toLocaleString()})` : ''),
+    '',
+    '## Target Keywords',
+    '',
+    `- **Primary:** ${brief.target_keywords.primary}`,
+    ...brief.target_keywords.secondary.map(kw => `- ${kw.keyword}${kw.search_volume > 0 ? ` (${kw.search_volume.toLocaleString()}/month)` : ''}`),
+    '',
+    '## Outline',
+    ''
+  );
+
+  brief.outline.forEach(section => {
+    lines.push(`### H2: ${section.heading}`);
+    section.subheadings.forEach(subheading => lines.push(`- H3: ${subheading}`));
+    if (section.notes) lines.push('', `_${section.notes}_`);
+    lines.push('');
+  });
+
+  lines.push('## Questions to Answer', '', ...(brief.questions.length > 0 ? brief.questions.map(q => `- ${q}`) : ['- None identified']), '');
+
+  lines.push('## Competitor Angles', '');
+  if (brief.competitor_angles.length > 0) {
+    brief.competitor_angles.forEach(entry => lines.push(`- **${entry.domain}:** ${entry.angle}`));
+  } else {
+    lines.push('- None identified');
+  }
+  lines.push('');
+
+  if (brief.pages_analyzed.length > 0) {
+    lines.push('## Pages Analyzed', '', '| Position | Page | Words | Headings |', '|---|---|---|---|');
+    brief.pages_analyzed.forEach(page => {
+      lines.push(`| #${page.position} | [${page.title.replace(/\|/g, '\\|')}](${page.url}) | ${page.word_count.toLocaleString()} | ${page.headings.length} |`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,154 @@
+// On-disk response cache for scraper, LLM and keyword-data provider calls
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export type CacheProvider = 'firecrawl' | 'http' | 'perplexity' | 'openai' | 'anthropic' | 'ollama' | 'dataforseo';
+
+// use: read and write, refresh: always call the API but store the result, bypass: never touch the cache
+export type CacheMode = 'use' | 'refresh' | 'bypass';
+
+export const CACHE_MODES: CacheMode[] = ['use', 'refresh', 'bypass'];
+
+// Default time-to-live per provider, in hours (override with CACHE_TTL_<PROVIDER>_HOURS)
+const DEFAULT_TTL_HOURS: Record<CacheProvider, number> = {
+  firecrawl: 24,
+  http: 24,
+  perplexity: 168,
+  openai: 168,
+  anthropic: 168,
+  ollama: 168,
+  dataforseo: 72
+};
+
+export interface CacheStats {
+  mode: CacheMode;
+  hits: number;
+  misses: number;
+  writes: number;
+  by_provider: Partial<Record<CacheProvider, { hits: number; misses: number }>>;
+}
+
+interface CacheEntry {
+  created_at: string;
+  provider: CacheProvider;
+  endpoint: string;
+  body: unknown;
+  response: unknown;
+}
+
+// Recursively sort object keys so logically identical bodies produce the same key
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce((acc, key) => {
+        acc[key] = normalize((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {} as Record<string, unknown>);
+  }
+  return value;
+}
+
+export function getCacheTtlHours(provider: CacheProvider): number {
+  const raw = process.env[`CACHE_TTL_${provider.toUpperCase()}_HOURS`];
+  const parsed = raw !== undefined ? Number(raw) : NaN;
+  return isNaN(parsed) || parsed < 0 ? DEFAULT_TTL_HOURS[provider] : parsed;
+}
+
+export class ResponseCache {
+  private stats: CacheStats;
+
+  constructor(
+    public readonly mode: CacheMode = 'use',
+    private readonly cacheDir: string = process.env.CACHE_DIR || path.join(process.cwd(), 'cache')
+  ) {
+    this.stats = {
+      mode,
+      hits: 0,
+      misses: 0,
+      writes: 0,
+      by_provider: {}
+    };
+  }
+
+  buildKey(endpoint: string, body: unknown): string {
+    return createHash('sha256')
+      .update(endpoint)
+      .update('\n')
+      .update(JSON.stringify(normalize(body)))
+      .digest('hex');
+  }
+
+  private entryPath(provider: CacheProvider, key: string): string {
+    return path.join(this.cacheDir, provider, `${key}.json`);
+  }
+
+  private read(provider: CacheProvider, key: string): unknown | undefined {
+    try {
+      const filePath = this.entryPath(provider, key);
+      if (!fs.existsSync(filePath)) return undefined;
+
+      const entry = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CacheEntry;
+      const ageHours = (Date.now() - new Date(entry.created_at).getTime()) / 3600000;
+      if (isNaN(ageHours) || ageHours > getCacheTtlHours(provider)) return undefined;
+
+      return entry.response;
+    } catch {
+      // A corrupt entry is treated as a miss and overwritten on the next write
+      return undefined;
+    }
+  }
+
+  private write(provider: CacheProvider, key: string, endpoint: string, body: unknown, response: unknown): void {
+    try {
+      const filePath = this.entryPath(provider, key);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      const entry: CacheEntry = {
+        created_at: new Date().toISOString(),
+        provider,
+        endpoint,
+        body,
+        response
+      };
+      fs.writeFileSync(filePath, JSON.stringify(entry), 'utf8');
+      this.stats.writes++;
+    } catch {
+      // Caching is best-effort: a failed write must never fail the analysis
+    }
+  }
+
+  // Return the cached response for endpoint + body, or run fetcher and store its (successful) result
+  async wrap<T>(provider: CacheProvider, endpoint: string, body: unknown, fetcher: () => Promise<T>): Promise<T> {
+    if (this.mode === 'bypass') {
+      return fetcher();
+    }
+
+    const key = this.buildKey(endpoint, body);
+    const providerStats = this.stats.by_provider[provider] || (this.stats.by_provider[provider] = { hits: 0, misses: 0 });
+
+    if (this.mode === 'use') {
+      const cached = this.read(provider, key);
+      if (cached !== undefined) {
+        this.stats.hits++;
+        providerStats.hits++;
+        return cached as T;
+      }
+    }
+
+    this.stats.misses++;
+    providerStats.misses++;
+
+    const response = await fetcher();
+    this.write(provider, key, endpoint, body, response);
+    return response;
+  }
+
+  getStats(): CacheStats {
+    return JSON.parse(JSON.stringify(this.stats));
+  }
+}
@@ -0,0 +1,184 @@
+// Per-run API cost tracking, price estimates for dry runs, and the optional budget cap
+import { AsyncLocalStorage } from 'async_hooks';
+import { CostStep, CostLine, CostBreakdown, DataPriority } from './types.js';
+
+// List prices in USD used when a provider does not report its own cost, and for dry-run estimates
+export const PRICES = {
+  // Firecrawl bills credits; one scrape or map call is one credit
+  firecrawlPerCall: Number(process.env.FIRECRAWL_COST_PER_CREDIT) || 0.01,
+  dataforseo: {
+    keywordMetrics: 0.075,
+    relatedKeywords: 0.075,
+    // Live advanced SERP, per page of 10 results
+    serpPer10: 0.002,
+    rankedKeywordsBase: 0.01,
+    rankedKeywordsPerItem: 0.0001,
+    keywordSuggestionsBase: 0.01,
+    keywordSuggestionsPerItem: 0.0001,
+    // Standard queue (task_post), normal priority
+    standard: {
+      keywordMetrics: 0.05,
+      relatedKeywords: 0.05,
+      serpPer10: 0.0006
+    }
+  },
+  // Per million tokens [input, output]
+  llmTokens: {
+    'sonar-pro': [3, 15],
+    'sonar': [1, 1],
+    'gpt-4o-mini': [0.15, 0.6],
+    'gpt-4o': [2.5, 10],
+    'claude-3-5-haiku-latest': [0.8, 4],
+    'claude-3-5-sonnet-latest': [3, 15]
+  } as Record<string, [number, number]>,
+  // Perplexity adds a per-request search fee on top of tokens
+  perplexityRequestFee: 0.006,
+  // Used for models missing from the table above
+  llmTokensFallback: [1, 3] as [number, number]
+};
+
+export function llmTokenCostUsd(provider: string, model: string, inputTokens: number, outputTokens: number): number {
+  if (provider === 'ollama') return 0;
+  const [inputPrice, outputPrice] = PRICES.llmTokens[model] || PRICES.llmTokensFallback;
+  return (inputTokens * inputPrice + outputTokens * outputPrice) / 1_000_000;
+}
+
+// Rough cost of one completion: a ~1,500 token prompt and a full-length answer
+export function estimateLlmCallUsd(provider: string, model: string, maxTokens: number): number {
+  const fee = provider === 'perplexity' ? PRICES.perplexityRequestFee : 0;
+  return llmTokenCostUsd(provider, model, 1500, maxTokens) + fee;
+}
+
+// Keyword data prices for the live endpoints or the standard queue; ranked keywords are always live
+export function keywordDataPrices(priority: DataPriority = 'live') {
+  const prices = priority === 'standard' ? PRICES.dataforseo.standard : PRICES.dataforseo;
+  return { keywordMetrics: prices.keywordMetrics, relatedKeywords: prices.relatedKeywords, serpPer10: prices.serpPer10 };
+}
+
+export function estimateSerpCallUsd(depth: number, priority: DataPriority = 'live'): number {
+  return Math.ceil(depth / 10) * keywordDataPrices(priority).serpPer10;
+}
+
+export function estimateRankedKeywordsUsd(limit: number): number {
+  return PRICES.dataforseo.rankedKeywordsBase + limit * PRICES.dataforseo.rankedKeywordsPerItem;
+}
+
+export function estimateKeywordSuggestionsUsd(limit: number): number {
+  return PRICES.dataforseo.keywordSuggestionsBase + limit * PRICES.dataforseo.keywordSuggestionsPerItem;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public step: CostStep, budgetUsd: number) {
+    super(`Stopped before ${step}: it would exceed the $${budgetUsd.toFixed(2)} budget.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function emptyLine(): CostLine {
+  return { calls: 0, cost_usd: 0 };
+}
+
+export class CostTracker {
+  private spent = 0;
+  private calls = 0;
+  // Estimated cost of calls that have started but not yet reported their actual cost
+  private outstanding = 0;
+  private byProvider: Record<string, CostLine> = {};
+  private byStep: Record<string, CostLine> = {};
+  private skipped = new Set<CostStep>();
+  private stepContext = new AsyncLocalStorage<CostStep>();
+  private skipContext = new AsyncLocalStorage<{ skipped: boolean }>();
+
+  constructor(private budgetUsd: number | null = null) {}
+
+  // Count what earlier attempts of a resumed job spent, against the budget and in the breakdown
+  restore(previous: CostBreakdown): void {
+    this.spent += previous.total_usd;
+    this.calls += previous.calls;
+    const add = (lines: Record<string, CostLine>, from: Record<string, CostLine>) => {
+      for (const [key, line] of Object.entries(from)) {
+        const target = lines[key] ||= emptyLine();
+        target.calls += line.calls;
+        target.cost_usd += line.cost_usd;
+      }
+    };
+    add(this.byProvider, previous.by_provider);
+    add(this.byStep, previous.by_step);
+  }
+
+  // Run fn and report whether a budget check inside it (including parallel calls) skipped a call
+  async trackSkips<T>(fn: () => Promise<T>): Promise<{ result: T, skipped: boolean }> {
+    const scope = { skipped: false };
+    const result = await this.skipContext.run(scope, fn);
+    return { result, skipped: scope.skipped };
+  }
+
+  // Attribute every cost recorded inside fn (including parallel calls) to step
+  runStep<T>(step: CostStep, fn: () => Promise<T>): Promise<T> {
+    return this.stepContext.run(step, fn);
+  }
+
+  // Called by providers after a billable (uncached) response
+  record(provider: string, costUsd: number): void {
+    const cost = isNaN(costUsd) ? 0 : costUsd;
+    const step = this.stepContext.getStore() || 'other';
+
+    this.spent += cost;
+    this.calls++;
+
+    const providerLine = this.byProvider[provider] ||= emptyLine();
+    providerLine.calls++;
+    providerLine.cost_usd += cost;
+
+    const stepLine = this.byStep[step] ||= emptyLine();
+    stepLine.calls++;
+    stepLine.cost_usd += cost;
+  }
+
+  // Run a call only if its estimated cost fits in the remaining budget; returns null (and marks the step skipped) otherwise
+  async withinBudget<T>(step: CostStep, estimateUsd: number, call: () => Promise<T>): Promise<T | null> {
+    if (this.budgetUsd !== null && this.spent + this.outstanding + estimateUsd > this.budgetUsd) {
+      this.skipped.add(step);
+      const scope = this.skipContext.getStore();
+      if (scope) scope.skipped = true;
+      return null;
+    }
+
+    this.outstanding += estimateUsd;
+    try {
+      return await this.runStep(step, call);
+    } finally {
+      this.outstanding -= estimateUsd;
+    }
+  }
+
+  // Like withinBudget, for calls the pipeline cannot continue without
+  async requireBudget<T>(step: CostStep, estimateUsd: number, call: () => Promise<T>): Promise<T> {
+    const result = await this.withinBudget(step, estimateUsd, async () => ({ value: await call() }));
+    if (result === null) {
+      throw new BudgetExceededError(step, this.budgetUsd!);
+    }
+    return result.value;
+  }
+
+  markSkipped(step: CostStep): void {
+    this.skipped.add(step);
+  }
+
+  getBreakdown(): CostBreakdown {
+    const round = (line: CostLine): CostLine => ({ calls: line.calls, cost_usd: Number(line.cost_usd.toFixed(4)) });
+    const roundAll = (lines: Record<string, CostLine>) =>
+      Object.fromEntries(Object.entries(lines).map(([key, line]) => [key, round(line)]));
+
+    return {
+      currency: 'USD',
+      total_usd: Number(this.spent.toFixed(4)),
+      calls: this.calls,
+      by_provider: roundAll(this.byProvider),
+      by_step: roundAll(this.byStep),
+      budget_usd: this.budgetUsd,
+      budget_exceeded: this.skipped.size > 0,
+      skipped_steps: [...this.skipped]
+    };
+  }
+}
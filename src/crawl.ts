@@ -0,0 +1,120 @@
+// Page discovery for multi-page crawls: sitemap.xml parsing and include/exclude path filtering
+import { httpClient } from './http.js';
+import { ResponseCache } from './cache.js';
+import { CrawlOptions } from './types.js';
+
+export const DEFAULT_MAX_PAGES = 10;
+export const MAX_PAGES_LIMIT = 50;
+
+// Sitemap indexes can reference hundreds of child sitemaps; only the first few are read
+const MAX_CHILD_SITEMAPS = 5;
+
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|txt|zip|gz|mp4|mp3|woff2?)$/i;
+
+async function fetchText(cache: ResponseCache, url: string, signal?: AbortSignal): Promise<string | null> {
+  try {
+    return await cache.wrap('http', url, { method: 'GET' }, async () => {
+      const response = await httpClient('http').fetch(url, {
+        headers: { 'User-Agent': process.env.HTTP_SCRAPER_USER_AGENT || 'Mozilla/5.0 (compatible; KeywordResearchTool/1.0)' },
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+      }
+
+      return await response.text();
+    });
+  } catch (error) {
+    console.error(`Could not read ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function extractLocs(xml: string): string[] {
+  const locs: string[] = [];
+  const pattern = /<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    locs.push(match[1].trim().replace(/&amp;/g, '&'));
+  }
+  return locs;
+}
+
+// Read the sitemaps listed in robots.txt (falling back to /sitemap.xml), following one level of sitemap index
+export async function discoverSitemapUrls(siteUrl: string, cache: ResponseCache, signal?: AbortSignal): Promise<string[]> {
+  const origin = new URL(siteUrl).origin;
+
+  const robots = await fetchText(cache, `${origin}/robots.txt`, signal);
+  const declared = (robots || '')
+    .split('\n')
+    .map(line => line.match(/^\s*sitemap:\s*(\S+)/i)?.[1])
+    .filter((url): url is string => !!url);
+  const sitemapUrls = declared.length > 0 ? declared : [`${origin}/sitemap.xml`];
+
+  const pages: string[] = [];
+  for (const sitemapUrl of sitemapUrls.slice(0, MAX_CHILD_SITEMAPS)) {
+    const xml = await fetchText(cache, sitemapUrl, signal);
+    if (!xml) continue;
+
+    if (/<sitemapindex\b/i.test(xml)) {
+      for (const childUrl of extractLocs(xml).slice(0, MAX_CHILD_SITEMAPS)) {
+        const childXml = await fetchText(cache, childUrl, signal);
+        if (childXml) pages.push(...extractLocs(childXml));
+      }
+    } else {
+      pages.push(...extractLocs(xml));
+    }
+  }
+
+  return pages;
+}
+
+export function matchesPathPattern(pathname: string, pattern: string): boolean {
+  const normalized = pattern.startsWith('/') ? pattern : `/${pattern}`;
+  if (!normalized.includes('*')) {
+    return pathname === normalized || pathname.startsWith(normalized.endsWith('/') ? normalized : `${normalized}/`);
+  }
+  const regex = new RegExp('^' + normalized.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$', 'i');
+  return regex.test(pathname);
+}
+
+function canonicalPageUrl(url: URL): string {
+  const pathname = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, '') : url.pathname;
+  return `${url.origin}${pathname}${url.search}`;
+}
+
+// Keep same-site HTML pages that pass the include/exclude patterns, shallowest paths first so that
+// category and product pages win over deep blog archives, and cap the list at maxPages - 1 (the homepage is always scraped)
+export function selectCrawlPages(siteUrl: string, candidates: string[], options: CrawlOptions): string[] {
+  const site = new URL(siteUrl);
+  const host = site.hostname.replace(/^www\./, '');
+  const seen = new Set<string>([canonicalPageUrl(site)]);
+  const selected: { url: string, depth: number }[] = [];
+
+  for (const candidate of candidates) {
+    let url: URL;
+    try {
+      url = new URL(candidate, site);
+    } catch {
+      continue;
+    }
+    url.hash = '';
+
+    if (url.hostname.replace(/^www\./, '') !== host || NON_HTML_EXTENSIONS.test(url.pathname)) continue;
+    if (options.includePaths?.length && !options.includePaths.some(p => matchesPathPattern(url.pathname, p))) continue;
+    if (options.excludePaths?.some(p => matchesPathPattern(url.pathname, p))) continue;
+
+    const canonical = canonicalPageUrl(url);
+    if (seen.has(canonical)) continue;
+    seen.add(canonical);
+
+    selected.push({ url: canonical, depth: url.pathname.split('/').filter(Boolean).length });
+  }
+
+  const maxPages = options.maxPages || DEFAULT_MAX_PAGES;
+  return selected
+    .sort((a, b) => a.depth - b.depth)
+    .slice(0, Math.max(0, maxPages - 1))
+    .map(entry => entry.url);
+}
@@ -0,0 +1,87 @@
+// Keyword expansion strategies: question and suggestion lookups per seed, modifier templates applied to seeds,
+// and attribution of Google Ads related keywords to the seed they most likely came from
+import { ExpansionStrategy } from './types.js';
+
+export const EXPANSION_STRATEGIES: ExpansionStrategy[] = ['related', 'questions', 'suggestions', 'modifiers'];
+
+// Seeds the questions, suggestions and modifiers strategies are applied to (related keywords take the first 20)
+export const DEFAULT_EXPANSION_SEEDS = 5;
+export const MAX_EXPANSION_SEEDS = 20;
+
+// Keywords requested per seed from DataForSEO Labs, highest volume first
+export const QUESTION_LIMIT = 50;
+export const SUGGESTION_LIMIT = 100;
+
+// "{seed}" is replaced with each seed and "{other}" with each other seed
+export const DEFAULT_MODIFIER_TEMPLATES = ['best {seed}', 'best {seed} for {other}', '{seed} vs {other}', '{seed} near me'];
+
+// Google Ads search volume accepts up to 1000 keywords per task, each at most 80 characters and 10 words
+const MAX_MODIFIER_CANDIDATES = 1000;
+const MAX_KEYWORD_LENGTH = 80;
+const MAX_KEYWORD_WORDS = 10;
+
+// Question words the questions strategy keeps keywords starting with; English only
+const QUESTION_WORDS = ['who', 'what', 'when', 'where', 'why', 'how', 'which', 'can', 'could', 'do', 'does', 'is', 'are', 'should', 'will'];
+export const QUESTION_PATTERN = `^(${QUESTION_WORDS.join('|')})\\s`;
+
+// A keyword found by an expansion strategy; item has the same fields as a keyword metrics result
+export interface ExpandedKeyword {
+  item: any;
+  strategy: ExpansionStrategy;
+  seed: string | null;
+}
+
+export function validateModifierTemplates(templates: string[]): void {
+  for (const template of templates) {
+    if (!template.includes('{seed}')) {
+      throw new Error(`Modifier template "${template}" must contain {seed}.`);
+    }
+    const unknown = (template.match(/\{[^}]*\}/g) || []).filter(placeholder => placeholder !== '{seed}' && placeholder !== '{other}');
+    if (unknown.length > 0) {
+      throw new Error(`Modifier template "${template}" uses ${unknown.join(', ')}; only {seed} and {other} are supported.`);
+    }
+  }
+}
+
+// Candidate keywords from the templates, each with the seed that filled {seed}; duplicates and keywords
+// Google Ads would reject are dropped
+export function applyModifierTemplates(seeds: string[], templates: string[]): { keyword: string, seed: string }[] {
+  const candidates = new Map<string, string>();
+  const add = (keyword: string, seed: string) => {
+    const normalized = keyword.toLowerCase().replace(/\s+/g, ' ').trim();
+    if (normalized.length > MAX_KEYWORD_LENGTH || normalized.split(' ').length > MAX_KEYWORD_WORDS) return;
+    if (!candidates.has(normalized) && candidates.size < MAX_MODIFIER_CANDIDATES) {
+      candidates.set(normalized, seed);
+    }
+  };
+
+  for (const template of templates) {
+    for (const seed of seeds) {
+      if (!template.includes('{other}')) {
+        add(template.split('{seed}').join(seed), seed);
+        continue;
+      }
+      seeds.filter(other => other !== seed).forEach(other => add(template.split('{seed}').join(seed).split('{other}').join(other), seed));
+    }
+  }
+
+  return [...candidates.entries()].map(([keyword, seed]) => ({ keyword, seed }));
+}
+
+const words = (text: string) => new Set(text.toLowerCase().split(/\s+/).filter(word => word.length > 2));
+
+// Google Ads returns related keywords for the seed list as a whole, so the seed sharing the most words stands in
+// for the one that produced it; null when no seed shares a word
+export function closestSeed(keyword: string, seeds: string[]): string | null {
+  const keywordWords = words(keyword);
+  let best: string | null = null;
+  let bestShared = 0;
+  for (const seed of seeds) {
+    const shared = [...words(seed)].filter(word => keywordWords.has(word)).length;
+    if (shared > bestShared) {
+      best = seed;
+      bestShared = shared;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,246 @@
+// Spreadsheet and browser-friendly exports of an analysis report
+import { AnalysisReport, KeywordCluster } from './types.js';
+import { formatCurrency } from './markets.js';
+
+export type ExportFormat = 'csv' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'html'];
+
+// Excel only detects UTF-8 when the file starts with a byte order mark
+const UTF8_BOM = '\uFEFF';
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'number' && isNaN(value) ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+  return UTF8_BOM + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// One row per keyword, tagged with the cluster it landed in
+export function keywordsToCsv(report: AnalysisReport): string {
+  const header = [
+    'cluster_id', 'cluster_theme', 'cluster_main_keyword', 'keyword', 'source', 'is_seed',
+    'search_volume', 'cpc', 'competition', 'competition_level', 'keyword_difficulty',
+    'commercial_score', 'intent', 'intent_confidence', 'secondary_intents', 'own_position', 'own_url',
+    'serp_features', 'featured_snippet_owner', 'ads_count', 'shopping_count', 'expected_ctr', 'people_also_ask',
+    'top_serp_domains', 'projected_position', 'projected_ctr', 'projected_clicks', 'projected_value',
+    'expansion_strategy', 'expansion_seed', 'brand'
+  ];
+  const rows = report.clusters.flatMap(cluster => cluster.keywords.map(kw => [
+    cluster.cluster_id,
+    cluster.theme,
+    cluster.main_keyword,
+    kw.keyword,
+    kw.source,
+    kw.is_seed,
+    kw.search_volume,
+    Number(kw.cpc.toFixed(2)),
+    Number(kw.competition.toFixed(2)),
+    kw.competition_level,
+    kw.keyword_difficulty,
+    Math.round(kw.commercial_score),
+    kw.intent?.primary,
+    kw.intent?.confidence,
+    (kw.intent?.labels || []).slice(1).map(label => label.intent).join(' | '),
+    kw.own_position,
+    kw.own_url,
+    (kw.serp_features?.types || []).join(' | '),
+    kw.serp_features?.featured_snippet?.domain,
+    kw.serp_features?.ads_count,
+    kw.serp_features?.shopping_count,
+    kw.serp_features?.expected_ctr,
+    (kw.serp_features?.people_also_ask || []).join(' | '),
+    kw.serp_urls.slice(0, 3).map(s => s.domain).join(' | '),
+    kw.traffic_projection?.position,
+    kw.traffic_projection?.ctr,
+    kw.traffic_projection?.clicks,
+    kw.traffic_projection?.value,
+    kw.expansion?.strategy,
+    kw.expansion?.seed,
+    kw.brand
+  ]));
+  return toCsv(header, rows);
+}
+
+export function clustersToCsv(report: AnalysisReport): string {
+  const header = [
+    'cluster_id', 'main_keyword', 'theme', 'keyword_count', 'total_search_volume',
+    'avg_cpc', 'avg_difficulty', 'total_commercial_score', 'ranking_status', 'best_own_position',
+    'projected_clicks', 'projected_value', 'competitor_domains', 'ai_competitors'
+  ];
+  const rows = report.clusters.map(cluster => [
+    cluster.cluster_id,
+    cluster.main_keyword,
+    cluster.theme,
+    cluster.keywords.length,
+    cluster.total_search_volume,
+    Number(cluster.avg_cpc.toFixed(2)),
+    Math.round(cluster.avg_difficulty),
+    Math.round(cluster.total_commercial_score),
+    cluster.ranking_status,
+    cluster.best_own_position,
+    cluster.projected_clicks,
+    cluster.projected_value,
+    cluster.competitor_domains.join(' | '),
+    (cluster.ai_competitors || []).join(' | ')
+  ]);
+  return toCsv(header, rows);
+}
+
+function escapeHtml(text: unknown): string {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Numeric cells carry data-sort so the table sorter compares raw values rather than formatted text
+function htmlTable(headers: string[], rows: { text: string, sort?: number }[][]): string {
+  if (rows.length === 0) {
+    return '<p class="empty">None identified.</p>';
+  }
+  const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows.map(row => '<tr>' + row.map(cell =>
+    cell.sort !== undefined && !isNaN(cell.sort)
+      ? `<td class="num" data-sort="${cell.sort}">${escapeHtml(cell.text)}</td>`
+      : `<td>${escapeHtml(cell.text)}</td>`
+  ).join('') + '</tr>').join('\n');
+  return `<table class="sortable"><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+export function reportToHtml(report: AnalysisReport): string {
+  const summary = report.analysis_summary;
+  const money = (amount: number) => formatCurrency(amount, summary.currency);
+  const num = (value: number) => ({ text: isNaN(value) ? 'N/A' : Math.round(value).toLocaleString(), sort: value });
+  // Not ranking sorts after every real position
+  const ownPosition = (position: number | null | undefined) =>
+    position ? { text: `#${position}`, sort: position } : { text: '-', sort: 1000 };
+  // Reports saved before traffic projection have no projected values
+  const projectedValue = (value: number | undefined) =>
+    value !== undefined ? { text: money(value), sort: value } : { text: 'N/A' };
+
+  const clusterRows = (clusters: KeywordCluster[]) => clusters.map(cluster => [
+    num(cluster.cluster_id),
+    { text: cluster.main_keyword },
+    { text: cluster.theme },
+    num(cluster.keywords.length),
+    num(cluster.total_search_volume),
+    { text: money(cluster.avg_cpc), sort: cluster.avg_cpc },
+    num(cluster.avg_difficulty),
+    num(cluster.total_commercial_score),
+    ownPosition(cluster.best_own_position),
+    num(cluster.projected_clicks ?? NaN),
+    projectedValue(cluster.projected_value),
+    { text: cluster.competitor_domains.slice(0, 5).join(', ') }
+  ]);
+  const clusterHeaders = ['#', 'Main Keyword', 'Theme', 'Keywords', 'Volume', 'Avg CPC', 'Difficulty', 'Commercial Score', 'Own Position', 'Projected Clicks', 'Projected Value', 'Competitors'];
+
+  const keywordRows = report.clusters.flatMap(cluster => cluster.keywords.map(kw => [
+    num(cluster.cluster_id),
+    { text: kw.keyword },
+    { text: kw.source },
+    { text: kw.intent?.primary || '-' },
+    num(kw.search_volume),
+    { text: money(kw.cpc), sort: kw.cpc },
+    num(kw.keyword_difficulty),
+    { text: kw.competition_level },
+    num(kw.commercial_score),
+    ownPosition(kw.own_position),
+    num(kw.traffic_projection?.clicks ?? NaN)
+  ]));
+
+  const competitorRows = report.competitors.map((domain, index) => {
+    const clusters = report.clusters.filter(c => c.competitor_domains.includes(domain) || (c.ai_competitors || []).includes(domain));
+    return [num(index + 1), { text: domain }, num(clusters.length), { text: clusters.map(c => c.main_keyword).join(', ') }];
+  });
+
+  const questionRows = report.clusters.flatMap(cluster => cluster.keywords.flatMap(kw =>
+    (kw.serp_features?.people_also_ask || []).map(question => [{ text: question }, { text: kw.keyword }, { text: cluster.main_keyword }])
+  ));
+
+  const title = `Keyword Research Report: ${summary.source_website}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 2rem; color: #222; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.2rem; }
+  h2 { margin-top: 2.2rem; border-bottom: 2px solid #eee; padding-bottom: 0.3rem; }
+  .meta { color: #666; margin-top: 0; }
+  .stats { display: flex; flex-wrap: wrap; gap: 1rem; margin: 1.5rem 0; }
+  .stat { background: #f6f8fa; border-radius: 6px; padding: 0.8rem 1.2rem; min-width: 9rem; }
+  .stat b { display: block; font-size: 1.3rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; }
+  th { background: #f6f8fa; cursor: pointer; user-select: none; white-space: nowrap; }
+  th.asc::after { content: " \\25B2"; }
+  th.desc::after { content: " \\25BC"; }
+  td.num { text-align: right; }
+  tbody tr:nth-child(even) { background: #fafafa; }
+  .empty { color: #888; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(summary.business_type)} &middot; ${escapeHtml(summary.location)} / ${escapeHtml(summary.language)} &middot; ${escapeHtml(new Date(summary.analysis_date).toLocaleString())}</p>
+
+<div class="stats">
+  <div class="stat"><b>${summary.total_keywords_analyzed.toLocaleString()}</b>Keywords analyzed</div>
+  <div class="stat"><b>${summary.clusters_identified.toLocaleString()}</b>Clusters</div>
+  <div class="stat"><b>${summary.total_monthly_search_volume.toLocaleString()}</b>Monthly searches</div>
+  <div class="stat"><b>${summary.estimated_monthly_traffic_potential.toLocaleString()}</b>Est. monthly traffic</div>${summary.traffic_scenarios ? `
+  <div class="stat"><b>${escapeHtml(money(summary.traffic_scenarios.expected.value))}</b>Projected traffic value (${escapeHtml(money(summary.traffic_scenarios.conservative.value))}-${escapeHtml(money(summary.traffic_scenarios.optimistic.value))})</div>` : ''}
+  <div class="stat"><b>${escapeHtml(money(summary.avg_cpc))}</b>Average CPC</div>
+</div>
+
+<h2>Quick Wins</h2>
+${htmlTable(clusterHeaders, clusterRows(report.quick_wins))}
+
+<h2>High-Value Targets</h2>
+${htmlTable(clusterHeaders, clusterRows(report.high_value))}
+
+<h2>Keyword Clusters</h2>
+${htmlTable(clusterHeaders, clusterRows(report.clusters))}
+
+<h2>Competitors</h2>
+${htmlTable(['#', 'Domain', 'Clusters', 'Seen In'], competitorRows)}
+
+<h2>People Also Ask</h2>
+${htmlTable(['Question', 'Keyword', 'Cluster'], questionRows)}
+
+<h2>All Keywords</h2>
+${htmlTable(['Cluster', 'Keyword', 'Source', 'Intent', 'Volume', 'CPC', 'Difficulty', 'Competition', 'Commercial Score', 'Own Position', 'Projected Clicks'], keywordRows)}
+
+<script>
+document.querySelectorAll('table.sortable th').forEach(function (th) {
+  th.addEventListener('click', function () {
+    var table = th.closest('table');
+    var index = Array.prototype.indexOf.call(th.parentNode.children, th);
+    var ascending = !th.classList.contains('asc');
+    table.querySelectorAll('th').forEach(function (h) { h.classList.remove('asc', 'desc'); });
+    th.classList.add(ascending ? 'asc' : 'desc');
+    var tbody = table.tBodies[0];
+    var rows = Array.prototype.slice.call(tbody.rows);
+    rows.sort(function (a, b) {
+      var x = a.cells[index], y = b.cells[index];
+      var nx = x.dataset.sort, ny = y.dataset.sort;
+      var result = nx !== undefined && ny !== undefined
+        ? parseFloat(nx) - parseFloat(ny)
+        : x.textContent.localeCompare(y.textContent);
+      return ascending ? result : -result;
+    });
+    rows.forEach(function (row) { tbody.appendChild(row); });
+  });
+});
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,301 @@
+// Keyword filters: user-defined (keyword-filters.json and per call) exclusions, inclusions, volume and length limits
+// and brand lists, plus the built-in technical-term filter, with a record of every keyword removed and why
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BrandDropMode,
+  BrandType,
+  FilteredKeyword,
+  FilterReason,
+  FilterStage,
+  FilterSummary,
+  KeywordData,
+  KeywordFilters,
+  SearchIntent
+} from './types.js';
+
+export const BRAND_DROP_MODES: BrandDropMode[] = ['none', 'competitors', 'all'];
+
+export const DEFAULT_KEYWORD_FILTERS: KeywordFilters = {
+  exclude_terms: [],
+  exclude_patterns: [],
+  include_terms: [],
+  include_patterns: [],
+  min_volume: null,
+  max_volume: null,
+  min_words: null,
+  max_words: null,
+  own_brands: [],
+  competitor_brands: [],
+  drop_brands: 'none',
+  technical_filter: true
+};
+
+// Removals listed in the report; the counts cover all of them
+const MAX_FILTERED_LISTED = 200;
+
+// Confidence of the navigational label given to brand keywords
+const BRAND_CONFIDENCE = 0.95;
+
+// A page sentence with more than two of these is treated as code or developer documentation
+const TECHNICAL_CONTENT_TERMS = [
+  'json', 'api', 'javascript', 'html', 'css', 'code', 'function', 'variable',
+  'array', 'object', 'string', 'boolean', 'null', 'undefined', 'console',
+  'log', 'error', 'debug', 'github', 'npm', 'node', 'react', 'vue', 'angular',
+  'webpack', 'babel', 'typescript', 'php', 'python', 'java', 'sql', 'database',
+  'server', 'localhost', 'http', 'https', 'url', 'endpoint', 'crud', 'rest',
+  'graphql', 'oauth', 'jwt', 'cookie', 'session', 'cache', 'cdn', 'aws',
+  'docker', 'kubernetes', 'deployment', 'pipeline', 'repository', 'commit'
+];
+
+// AI seeds containing one of these as a whole word are dropped
+const TECHNICAL_KEYWORD_TERMS = [
+  'json', 'api', 'javascript', 'html', 'css', 'code', 'coding', 'programming',
+  'developer', 'development', 'framework', 'library', 'function', 'variable',
+  'array', 'object', 'string', 'boolean', 'null', 'undefined', 'console',
+  'log', 'error', 'debug', 'github', 'npm', 'node', 'react', 'vue', 'angular',
+  'webpack', 'babel', 'typescript', 'php', 'python', 'java', 'sql', 'database',
+  'server', 'localhost', 'http', 'https', 'url', 'endpoint', 'crud', 'rest',
+  'graphql', 'oauth', 'jwt', 'cookie', 'session', 'cache', 'cdn', 'aws',
+  'docker', 'kubernetes', 'deployment', 'pipeline', 'repository', 'commit',
+  'markdown', 'syntax', 'script', 'tag', 'element', 'attribute', 'dom',
+  'cli', 'terminal', 'command', 'install', 'package', 'module', 'import'
+];
+
+const GENERIC_TERMS = ['data', 'information', 'content', 'text', 'format', 'file'];
+
+const LIST_KEYS = ['exclude_terms', 'exclude_patterns', 'include_terms', 'include_patterns', 'own_brands', 'competitor_brands'] as const;
+const NUMBER_KEYS = ['min_volume', 'max_volume', 'min_words', 'max_words'] as const;
+const FILTER_KEYS = [...LIST_KEYS, ...NUMBER_KEYS, 'drop_brands', 'technical_filter'];
+
+export function getKeywordFiltersPath(): string {
+  return process.env.KEYWORD_FILTERS_PATH || path.join(process.cwd(), 'keyword-filters.json');
+}
+
+// Validate a filters object from keyword-filters.json or a call; only the filters it sets are returned
+export function parseKeywordFilters(value: unknown, source: string): Partial<KeywordFilters> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${source} must be an object of keyword filters.`);
+  }
+
+  const filters: Partial<KeywordFilters> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if ((LIST_KEYS as readonly string[]).includes(key)) {
+      if (!Array.isArray(entry) || entry.some(item => typeof item !== 'string' || item.trim() === '')) {
+        throw new Error(`${source}: ${key} must be an array of non-empty strings.`);
+      }
+      filters[key as typeof LIST_KEYS[number]] = entry.map(item => item.trim());
+    } else if ((NUMBER_KEYS as readonly string[]).includes(key)) {
+      if (entry !== null && (typeof entry !== 'number' || !Number.isInteger(entry) || entry < 0)) {
+        throw new Error(`${source}: ${key} must be a non-negative integer or null.`);
+      }
+      filters[key as typeof NUMBER_KEYS[number]] = entry as number | null;
+    } else if (key === 'drop_brands') {
+      if (!BRAND_DROP_MODES.includes(entry as BrandDropMode)) {
+        throw new Error(`${source}: drop_brands must be one of: ${BRAND_DROP_MODES.join(', ')}.`);
+      }
+      filters.drop_brands = entry as BrandDropMode;
+    } else if (key === 'technical_filter') {
+      if (typeof entry !== 'boolean') {
+        throw new Error(`${source}: technical_filter must be true or false.`);
+      }
+      filters.technical_filter = entry;
+    } else {
+      throw new Error(`${source}: unknown filter "${key}" (use ${FILTER_KEYS.join(', ')}).`);
+    }
+  }
+
+  for (const pattern of [...filters.exclude_patterns || [], ...filters.include_patterns || []]) {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      throw new Error(`${source}: invalid pattern "${pattern}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return filters;
+}
+
+// Filters from keyword-filters.json (or KEYWORD_FILTERS_PATH); none when the default file does not exist
+export function loadKeywordFilters(): Partial<KeywordFilters> {
+  const file = getKeywordFiltersPath();
+  if (!fs.existsSync(file)) {
+    if (process.env.KEYWORD_FILTERS_PATH) {
+      throw new Error(`Keyword filters file not found: ${file}`);
+    }
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read keyword filters from ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseKeywordFilters(parsed, file);
+}
+
+// The file's filters with the call's on top: lists are combined, limits and switches set in the call replace the file's
+export function resolveKeywordFilters(callFilters: Partial<KeywordFilters> = {}): KeywordFilters {
+  const fileFilters = loadKeywordFilters();
+  const filters: KeywordFilters = { ...DEFAULT_KEYWORD_FILTERS, ...fileFilters, ...callFilters };
+  for (const key of LIST_KEYS) {
+    const seen = new Set<string>();
+    filters[key] = [...fileFilters[key] || [], ...callFilters[key] || []].filter(item => {
+      const normalized = item.toLowerCase();
+      if (seen.has(normalized)) return false;
+      seen.add(normalized);
+      return true;
+    });
+  }
+
+  if (filters.min_volume !== null && filters.max_volume !== null && filters.min_volume > filters.max_volume) {
+    throw new Error(`min_volume (${filters.min_volume}) cannot be greater than max_volume (${filters.max_volume}).`);
+  }
+  if (filters.min_words !== null && filters.max_words !== null && filters.min_words > filters.max_words) {
+    throw new Error(`min_words (${filters.min_words}) cannot be greater than max_words (${filters.max_words}).`);
+  }
+  return filters;
+}
+
+// Lowercase words separated by single spaces and padded, so that phrases match on word boundaries
+const padWords = (text: string) => ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+
+function findPhrase(keyword: string, phrases: string[]): string | undefined {
+  const padded = padWords(keyword);
+  return phrases.find(phrase => padWords(phrase).trim() !== '' && padded.includes(padWords(phrase)));
+}
+
+export class KeywordFilter {
+  private filtered: FilteredKeyword[] = [];
+  private excludePatterns: RegExp[];
+  private includePatterns: RegExp[];
+  // Technical terms the user lists as include terms or brands describe their business, so they are not removed
+  private technicalTerms: string[];
+
+  constructor(readonly filters: KeywordFilters = DEFAULT_KEYWORD_FILTERS) {
+    this.excludePatterns = filters.exclude_patterns.map(pattern => new RegExp(pattern, 'i'));
+    this.includePatterns = filters.include_patterns.map(pattern => new RegExp(pattern, 'i'));
+    const declared = new Set([...filters.include_terms, ...filters.own_brands].flatMap(term => padWords(term).trim().split(' ')));
+    this.technicalTerms = TECHNICAL_KEYWORD_TERMS.filter(term => !declared.has(term));
+  }
+
+  // Number of developer terms in a sentence of page content; 0 when the technical filter is off
+  technicalTermCount(text: string): number {
+    if (!this.filters.technical_filter) return 0;
+    const padded = padWords(text);
+    return TECHNICAL_CONTENT_TERMS.filter(term => this.technicalTerms.includes(term) && padded.includes(` ${term} `)).length;
+  }
+
+  // The analyzed site's brands are checked first, so a keyword naming both is an own-brand keyword
+  brandOf(keyword: string): { type: BrandType, brand: string } | null {
+    const own = findPhrase(keyword, this.filters.own_brands);
+    if (own) return { type: 'own', brand: own };
+    const competitor = findPhrase(keyword, this.filters.competitor_brands);
+    return competitor ? { type: 'competitor', brand: competitor } : null;
+  }
+
+  // Why a keyword would be removed at this stage, or null to keep it; volume limits apply once the volume is known
+  check(keyword: string, stage: FilterStage, volume?: number): { reason: FilterReason, detail: string } | null {
+    const lower = keyword.toLowerCase().trim();
+
+    if (stage === 'seeds' && this.filters.technical_filter) {
+      const technicalTerm = findPhrase(keyword, this.technicalTerms);
+      if (technicalTerm) return { reason: 'technical', detail: technicalTerm };
+      const looksLikeCode = /[{}[\]<>()=+\-*/\\|&^%$#@!~`]/.test(keyword) ||
+                           /^(function|var |const |let )/.test(keyword);
+      if (looksLikeCode) return { reason: 'technical', detail: 'looks like code' };
+      if (GENERIC_TERMS.includes(lower)) return { reason: 'technical', detail: 'generic term' };
+      if (keyword.length <= 2) return { reason: 'technical', detail: 'too short' };
+    }
+
+    const excludedTerm = findPhrase(keyword, this.filters.exclude_terms);
+    if (excludedTerm) return { reason: 'excluded_term', detail: excludedTerm };
+    const excludedPattern = this.excludePatterns.find(pattern => pattern.test(keyword));
+    if (excludedPattern) return { reason: 'excluded_pattern', detail: excludedPattern.source };
+
+    if (this.filters.include_terms.length > 0 || this.includePatterns.length > 0) {
+      const included = findPhrase(keyword, this.filters.include_terms) || this.includePatterns.some(pattern => pattern.test(keyword));
+      if (!included) return { reason: 'not_included', detail: 'no include term or pattern' };
+    }
+
+    const words = lower.split(/\s+/).length;
+    if (this.filters.min_words !== null && words < this.filters.min_words) {
+      return { reason: 'word_count', detail: `${words} words, minimum ${this.filters.min_words}` };
+    }
+    if (this.filters.max_words !== null && words > this.filters.max_words) {
+      return { reason: 'word_count', detail: `${words} words, maximum ${this.filters.max_words}` };
+    }
+
+    const brand = this.brandOf(keyword);
+    if (brand && (this.filters.drop_brands === 'all' || (this.filters.drop_brands === 'competitors' && brand.type === 'competitor'))) {
+      return { reason: brand.type === 'own' ? 'own_brand' : 'competitor_brand', detail: brand.brand };
+    }
+
+    if (volume !== undefined) {
+      if (this.filters.min_volume !== null && volume < this.filters.min_volume) {
+        return { reason: 'min_volume', detail: `${volume} searches, minimum ${this.filters.min_volume}` };
+      }
+      if (this.filters.max_volume !== null && volume > this.filters.max_volume) {
+        return { reason: 'max_volume', detail: `${volume} searches, maximum ${this.filters.max_volume}` };
+      }
+    }
+    return null;
+  }
+
+  // Keep the items that pass, recording the others; exempt items (e.g., user seeds) are always kept
+  apply<T>(
+    items: T[],
+    stage: FilterStage,
+    keywordOf: (item: T) => string,
+    volumeOf?: (item: T) => number,
+    exempt?: (item: T) => boolean
+  ): T[] {
+    return items.filter(item => {
+      if (exempt?.(item)) return true;
+      const keyword = keywordOf(item);
+      const result = this.check(keyword, stage, volumeOf?.(item));
+      if (result) {
+        this.filtered.push({ keyword, stage, ...result });
+      }
+      return !result;
+    });
+  }
+
+  // Mark a brand keyword and make navigational its primary intent; other intents stay as secondary labels
+  tagBrand(keyword: KeywordData): void {
+    const brand = this.brandOf(keyword.keyword);
+    if (!brand) return;
+    keyword.brand = brand.type;
+    const navigational: SearchIntent = 'navigational';
+    keyword.intent = {
+      primary: navigational,
+      confidence: BRAND_CONFIDENCE,
+      labels: [
+        { intent: navigational, confidence: BRAND_CONFIDENCE },
+        ...keyword.intent.labels.filter(label => label.intent !== navigational)
+      ],
+      signals: [...keyword.intent.signals, `brand:${brand.brand}`]
+    };
+  }
+
+  // Removals so far, and the brand keywords among the keywords that were kept
+  getSummary(keywords: KeywordData[]): FilterSummary {
+    const byReason: FilterSummary['by_reason'] = {};
+    const byStage: FilterSummary['by_stage'] = {};
+    this.filtered.forEach(entry => {
+      byReason[entry.reason] = (byReason[entry.reason] || 0) + 1;
+      byStage[entry.stage] = (byStage[entry.stage] || 0) + 1;
+    });
+    return {
+      total: this.filtered.length,
+      by_reason: byReason,
+      by_stage: byStage,
+      brand_keywords: {
+        own: keywords.filter(kw => kw.brand === 'own').length,
+        competitor: keywords.filter(kw => kw.brand === 'competitor').length
+      },
+      keywords: this.filtered.slice(0, MAX_FILTERED_LISTED)
+    };
+  }
+}
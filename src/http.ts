@@ -0,0 +1,212 @@
+// Shared HTTP layer for provider calls: per-provider rate limits and concurrency, request timeouts,
+// and retries with exponential backoff that honor Retry-After
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { CacheProvider } from './cache.js';
+
+export interface HttpClientOptions {
+  // Requests in flight at once
+  concurrency: number;
+  // Request starts per minute (0 for no limit)
+  requestsPerMinute: number;
+  timeoutMs: number;
+  // Retries after the first attempt
+  maxRetries: number;
+}
+
+// Defaults per provider (override with HTTP_CONCURRENCY_<PROVIDER>, HTTP_RPM_<PROVIDER>, HTTP_TIMEOUT_MS and HTTP_MAX_RETRIES)
+const DEFAULT_LIMITS: Record<CacheProvider, { concurrency: number, requestsPerMinute: number, timeoutMs: number }> = {
+  firecrawl: { concurrency: 2, requestsPerMinute: 100, timeoutMs: 60000 },
+  http: { concurrency: 4, requestsPerMinute: 120, timeoutMs: 30000 },
+  perplexity: { concurrency: 3, requestsPerMinute: 50, timeoutMs: 120000 },
+  openai: { concurrency: 4, requestsPerMinute: 300, timeoutMs: 120000 },
+  anthropic: { concurrency: 4, requestsPerMinute: 50, timeoutMs: 120000 },
+  ollama: { concurrency: 1, requestsPerMinute: 0, timeoutMs: 300000 },
+  dataforseo: { concurrency: 5, requestsPerMinute: 600, timeoutMs: 120000 }
+};
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+// Longer Retry-After values are capped so a single call cannot stall the analysis for minutes
+const MAX_RETRY_AFTER_MS = 60000;
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const parsed = raw !== undefined ? Number(raw) : NaN;
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+export function getHttpClientOptions(provider: CacheProvider): HttpClientOptions {
+  const defaults = DEFAULT_LIMITS[provider];
+  const suffix = provider.toUpperCase();
+  return {
+    concurrency: Math.max(1, envNumber(`HTTP_CONCURRENCY_${suffix}`, defaults.concurrency)),
+    requestsPerMinute: envNumber(`HTTP_RPM_${suffix}`, defaults.requestsPerMinute),
+    timeoutMs: envNumber('HTTP_TIMEOUT_MS', defaults.timeoutMs),
+    maxRetries: envNumber('HTTP_MAX_RETRIES', DEFAULT_MAX_RETRIES)
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function backoffMs(attempt: number): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  // Full jitter keeps parallel callers from retrying in lockstep
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+function abortError(): Error {
+  const error = new Error('The request was cancelled.');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Resolves after ms, or rejects as soon as signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class HttpClient {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private nextStartAt = 0;
+
+  constructor(readonly provider: CacheProvider, private options: HttpClientOptions = getHttpClientOptions(provider)) {}
+
+  // Like fetch, but queued behind the provider's limits and retried on network errors, timeouts, 429 and 5xx.
+  // The last response is returned once retries run out, so callers keep their own !response.ok handling.
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const signal = init.signal as AbortSignal | undefined;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (signal?.aborted) throw abortError();
+      await this.acquire(signal);
+      let response: Response;
+      try {
+        response = await this.attempt(url, init, signal);
+      } catch (error) {
+        this.release();
+        if (signal?.aborted) throw abortError();
+        lastError = error;
+        if (attempt < this.options.maxRetries) {
+          console.error(`${this.provider} request failed (${error instanceof Error ? error.message : error}); retrying`);
+          await sleep(backoffMs(attempt), signal);
+        }
+        continue;
+      }
+      this.release();
+
+      if (!RETRYABLE_STATUSES.includes(response.status) || attempt === this.options.maxRetries) {
+        return response;
+      }
+
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      const delay = retryAfter !== null ? Math.min(retryAfter, MAX_RETRY_AFTER_MS) : backoffMs(attempt);
+      console.error(`${this.provider} returned ${response.status}; retrying in ${delay} ms`);
+      await sleep(delay, signal);
+    }
+
+    throw new Error(`${this.provider} request failed after ${this.options.maxRetries + 1} attempts: ${lastError instanceof Error ? lastError.message : lastError}`);
+  }
+
+  private async attempt(url: string, init: RequestInit, signal: AbortSignal | undefined): Promise<Response> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = this.options.timeoutMs > 0 ? setTimeout(() => controller.abort(), this.options.timeoutMs) : undefined;
+
+    try {
+      // A request cancelled while it waited for a slot or its start time is not sent
+      if (signal?.aborted) throw abortError();
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new Error(`timed out after ${this.options.timeoutMs} ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Wait for a free concurrency slot, then for the next start time allowed by the rate limit
+  private async acquire(signal: AbortSignal | undefined): Promise<void> {
+    if (this.active >= this.options.concurrency) {
+      // release() hands its slot straight to the first waiter, so active already counts this request once resolved
+      await new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const onAbort = () => {
+          this.waiting = this.waiting.filter(waiter => waiter !== grant);
+          reject(abortError());
+        };
+        const grant = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        this.waiting.push(grant);
+      });
+    } else {
+      this.active++;
+    }
+
+    if (this.options.requestsPerMinute > 0) {
+      const now = Date.now();
+      const startAt = Math.max(now, this.nextStartAt);
+      this.nextStartAt = startAt + 60000 / this.options.requestsPerMinute;
+      if (startAt > now) {
+        try {
+          await sleep(startAt - now, signal);
+        } catch (error) {
+          this.release();
+          throw error;
+        }
+      }
+    }
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Limits apply per process, across every tool call, so clients are shared per provider
+const clients = new Map<CacheProvider, HttpClient>();
+
+export function httpClient(provider: CacheProvider): HttpClient {
+  let client = clients.get(provider);
+  if (!client) {
+    client = new HttpClient(provider);
+    clients.set(provider, client);
+  }
+  return client;
+}
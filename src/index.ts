@@ -3,99 +3,461 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  ProgressToken,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import fetch from 'node-fetch';
 import * as fs from 'fs';
 import * as path from 'path';
+import { Market, DEFAULT_MARKET, resolveMarket, formatCurrency } from './markets.js';
+import { ResponseCache, CacheMode, CacheStats, CACHE_MODES } from './cache.js';
+import { classifyIntent } from './intent.js';
+import {
+  CostTracker,
+  BudgetExceededError,
+  PRICES,
+  estimateLlmCallUsd,
+  estimateSerpCallUsd,
+  keywordDataPrices,
+  estimateRankedKeywordsUsd,
+  estimateKeywordSuggestionsUsd,
+} from './costs.js';
+import { ProgressReporter } from './progress.js';
+import { AnalysisJob, Checkpoints, CheckpointedStep, CheckpointStep, JobStatus, ReportFiles, JobStore } from './jobs.js';
+import { RankCheck, RankFilter, RankStore } from './ranks.js';
+import { ContentBrief, extractPageOutline, clusterQuestions, buildBriefPrompt, buildContentBrief, briefToMarkdown } from './briefs.js';
+import { parseSerpFeatures, serpFeatureDifficulty, summarizeSerpFeatures } from './serp-features.js';
+import { projectTraffic } from './traffic.js';
+import { KeywordFilter, parseKeywordFilters, resolveKeywordFilters, BRAND_DROP_MODES } from './filters.js';
+import {
+  EXPANSION_STRATEGIES,
+  DEFAULT_EXPANSION_SEEDS,
+  MAX_EXPANSION_SEEDS,
+  QUESTION_LIMIT,
+  SUGGESTION_LIMIT,
+  QUESTION_PATTERN,
+  DEFAULT_MODIFIER_TEMPLATES,
+  ExpandedKeyword,
+  validateModifierTemplates,
+  applyModifierTemplates,
+  closestSeed,
+} from './expansion.js';
+import { DEFAULT_SCORING_PROFILE, THRESHOLD_MODES, resolveScoringProfile, resolveThresholds, isLowDifficulty, isHighValue } from './scoring.js';
+import { DEFAULT_MAX_PAGES, MAX_PAGES_LIMIT, discoverSitemapUrls, selectCrawlPages } from './crawl.js';
+import { ExportFormat, EXPORT_FORMATS, keywordsToCsv, clustersToCsv, reportToHtml } from './exports.js';
+import { Providers, ScrapedPage, createProviders } from './providers/index.js';
+import {
+  KeywordData,
+  KeywordSource,
+  SeedMode,
+  ClusterMode,
+  ClusterOptions,
+  RankingStatus,
+  SearchIntent,
+  CrawlMode,
+  CrawlOptions,
+  CrawledPage,
+  CompetitorRanking,
+  KeywordGapOptions,
+  KeywordGapAnalysis,
+  SerpUrl,
+  KeywordCluster,
+  AnalysisReport,
+  SavedReport,
+  CostBreakdown,
+  CostEstimate,
+  CostLine,
+  CostStep,
+  StepFailure,
+  DataPriority,
+  ScoringProfile,
+  ThresholdMode,
+  ResolvedThresholds,
+  ExpansionStrategy,
+  ExpansionOptions,
+  KeywordFilters,
+} from './types.js';
+import {
+  getReportsDir,
+  loadReport,
+  resolveReportPath,
+  listSavedReports,
+  filterSavedReports,
+  reportDomain,
+  findLatestReportPair,
+  compareReports,
+  formatReportDiff,
+  reportResourceUri,
+  reportPathFromUri,
+} from './reports.js';
+
+// Update the AnalysisArgs interface to only require website_url and business_type
+interface AnalysisArgs {
+  website_url: string;
+  business_type: string;
+  location?: string | number;
+  language?: string;
+  seed_keywords?: string[];
+  seed_mode?: 'replace' | 'merge';
+  cache?: CacheMode;
+  export_formats?: ExportFormat[];
+  crawl_mode?: CrawlMode;
+  max_pages?: number;
+  include_paths?: string[];
+  exclude_paths?: string[];
+  keyword_gap?: boolean;
+  gap_competitors?: number;
+  gap_min_competitors?: number;
+  dry_run?: boolean;
+  max_budget_usd?: number;
+  priority?: DataPriority;
+  scoring_profile?: string;
+  threshold_mode?: ThresholdMode;
+  expansion?: ExpansionStrategy[];
+  expansion_seeds?: number;
+  modifier_templates?: string[];
+  filters?: Partial<KeywordFilters>;
+}
 
-// Types based on the original app.js
-interface KeywordData {
-  keyword: string;
-  search_volume: number;
-  cpc: number;
-  competition: number;
-  competition_level: string;
-  keyword_difficulty: number;
-  serp_urls: SerpUrl[];
-  commercial_score: number;
-  is_seed: boolean;
+interface KeywordGapArgs {
+  website_url: string;
+  business_type?: string;
+  competitors?: string[];
+  report?: string;
+  max_competitors?: number;
+  min_competitors?: number;
+  keywords_per_domain?: number;
+  location?: string | number;
+  language?: string;
+  cache?: CacheMode;
+  scoring_profile?: string;
 }
 
-interface SerpUrl {
-  url: string;
-  title: string;
-  domain: string;
-  position: number;
+// Extra files written next to the JSON and text reports
+interface ExportedFiles {
+  keywords_csv_path?: string;
+  clusters_csv_path?: string;
+  html_report_path?: string;
 }
 
-interface KeywordCluster {
-  cluster_id: number;
-  main_keyword: string;
-  theme: string;
-  keywords: KeywordData[];
-  total_search_volume: number;
-  avg_cpc: number;
-  avg_difficulty: number;
-  total_commercial_score: number;
-  competitor_domains: string[];
-  ai_competitors?: string[];
+interface CompareReportsArgs {
+  previous_report?: string;
+  current_report?: string;
+  domain?: string;
 }
 
-interface AnalysisReport {
-  analysis_summary: {
-    source_website: string;
-    business_type: string;
-    analysis_date: string;
-    total_keywords_analyzed: number;
-    clusters_identified: number;
-    total_monthly_search_volume: number;
-    estimated_monthly_traffic_potential: number;
-    avg_cpc: number;
-  };
-  clusters: KeywordCluster[];
-  quick_wins: KeywordCluster[];
-  high_value: KeywordCluster[];
-  competitors: string[];
+interface ListReportsArgs {
+  domain?: string;
+  business_type?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
 }
 
-// Update the AnalysisArgs interface to only require website_url and business_type
-interface AnalysisArgs {
+interface StartAnalysisArgs extends Partial<AnalysisArgs> {
+  job_id?: string;
+}
+
+interface AnalysisJobArgs {
+  job_id: string;
+}
+
+interface TrackKeywordsArgs {
   website_url: string;
-  business_type: string;
+  keywords?: string[];
+  cluster?: string;
+  report?: string;
+  cluster_ids?: number[];
+  untrack?: string[];
+  location?: string | number;
+  language?: string;
+  serp_depth?: number;
+  check?: boolean;
+  cache?: CacheMode;
+  priority?: DataPriority;
+}
+
+interface RankHistoryArgs {
+  website_url: string;
+  location?: string | number;
+  language?: string;
+  keywords?: string[];
+  cluster?: string;
+  since?: string;
+}
+
+interface ContentBriefArgs {
+  report?: string;
+  website_url?: string;
+  cluster_id?: number;
+  cluster?: string;
+  max_pages?: number;
+  cache?: CacheMode;
+}
+
+interface GetReportArgs {
+  report: string;
+  cluster_id?: number;
+  cluster?: string;
+  format?: 'json' | 'text';
+}
+
+interface KeywordMetricsArgs {
+  keywords: string[];
+  business_type?: string;
+  location?: string | number;
+  language?: string;
+  include_serp?: boolean;
+  cluster?: boolean;
+  cache?: CacheMode;
+  priority?: DataPriority;
+  scoring_profile?: string;
+}
+
+// Optional settings threaded through performAnalysis
+interface AnalysisOptions {
+  market?: Market;
+  seedKeywords?: string[];
+  seedMode?: 'replace' | 'merge';
+  clustering?: ClusterOptions;
+  crawl?: CrawlOptions;
+  // Defaults to related keywords only
+  expansion?: ExpansionOptions;
+  // Resolved keyword filters; the built-in technical filter only when unset
+  filters?: KeywordFilters;
+  // Runs the competitor keyword gap step when set
+  keywordGap?: KeywordGapOptions;
+  // Step outputs of an asynchronous job; steps with a checkpoint are not run again
+  checkpoints?: Checkpoints;
+}
+
+// Run details recorded in the report's analysis_summary
+interface ReportContext {
+  market?: Market;
+  seeds?: { mode: SeedMode, user_seed_count: number, ai_seed_count: number };
+  clustering?: ClusterOptions;
+  crawlMode?: CrawlMode;
+  expansion?: ExpansionStrategy[];
+  pages?: ScrapedPage[];
+  keywordGap?: KeywordGapAnalysis;
 }
 
+// Upper bound on URLs requested from Firecrawl's map endpoint before include/exclude filtering
+const MAP_CANDIDATE_LIMIT = 500;
+
+// Platforms that show up in almost every SERP but are not useful keyword-gap competitors
+const GENERIC_DOMAINS = [
+  'wikipedia.org', 'youtube.com', 'reddit.com', 'quora.com', 'amazon.com', 'facebook.com', 'instagram.com',
+  'linkedin.com', 'pinterest.com', 'twitter.com', 'x.com', 'medium.com', 'yelp.com', 'tiktok.com'
+];
+
+const INTENT_THEMES: Record<SearchIntent, string> = {
+  transactional: '💰 Purchase Intent',
+  commercial: '🔍 Research & Comparison',
+  informational: '📚 Educational',
+  local: '📍 Local Intent',
+  navigational: '🧭 Navigational'
+};
+
+// SERP depth used by analyze_website; deep enough for striking-distance detection and SERP-overlap clustering
+const OWN_RANKING_SERP_DEPTH = 20;
+
+// Ranked keywords fetched for the analyzed site in a keyword gap (the endpoint's maximum), so that keywords it ranks
+// for below the competitors' cap are not reported as gaps
+const OWN_RANKED_KEYWORDS_LIMIT = 1000;
+
+// Absolute thresholds are exclusive and percentile thresholds inclusive (see scoring.ts)
+function thresholdComparison(thresholds: ResolvedThresholds, operator: '<' | '>'): string {
+  return thresholds.mode === 'percentile' ? `${operator}=` : operator;
+}
+
+// The quick-win difficulty rule a report used; reports saved before scoring profiles used the default profile's
+function quickWinRule(thresholds: ResolvedThresholds | undefined): string {
+  const resolved = thresholds || resolveThresholds(DEFAULT_SCORING_PROFILE.thresholds, []);
+  return `difficulty ${thresholdComparison(resolved, '<')} ${Math.round(resolved.quick_win_max_difficulty)}`;
+}
+
+// Rank tracking checks the top 100 by default; keywords beyond the depth are recorded as not ranking
+const RANK_TRACKING_SERP_DEPTH = 100;
+// Keywords checked per track_keywords call; larger tracked sets are checked least recently checked first
+const MAX_RANK_CHECKS_PER_CALL = 200;
+
 // Complete implementation adapted from app.js
 export class KeywordResearchTool {
+  // Calls that failed even after the HTTP client's retries; reported in the response rather than only logged
+  private failures: StepFailure[] = [];
+
+  // Cache, cost tracker, progress reporter and providers are per instance so that each tool call can choose its own
+  // cache mode, budget, keyword data priority and scoring profile, and report progress to (and be cancelled by) its own client request
+  constructor(
+    private cache: ResponseCache = new ResponseCache('bypass'),
+    private costs: CostTracker = new CostTracker(),
+    private progress: ProgressReporter = new ProgressReporter(),
+    priority: DataPriority = 'live',
+    readonly scoring: ScoringProfile = DEFAULT_SCORING_PROFILE,
+    private providers: Providers = createProviders(cache, costs, progress.signal, priority)
+  ) {}
+
+  getCacheStats() {
+    return this.cache.getStats();
+  }
+
+  getCostBreakdown(): CostBreakdown {
+    return this.costs.getBreakdown();
+  }
+
+  recordFailure(step: CostStep, item: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${step} failed for ${item}:`, message);
+    this.failures.push({ step, item, error: message });
+  }
+
+  getFailures(): StepFailure[] {
+    return [...this.failures];
+  }
+
+  // Estimated price of one uncached page scrape with the configured scraper
+  scrapeCallUsd(): number {
+    return this.providers.scraper.name === 'firecrawl' ? PRICES.firecrawlPerCall : 0;
+  }
+
+  llmCallUsd(maxTokens: number): number {
+    return estimateLlmCallUsd(this.providers.llm.name, this.providers.llm.model, maxTokens);
+  }
+
+  getProviders(): Providers {
+    return this.providers;
+  }
+
+  // Worst-case price of performAnalysis with these options: every call is assumed uncached and every optional step to run
+  estimateAnalysisCost(options: AnalysisOptions = {}): CostEstimate {
+    const userSeeds = this.normalizeSeedKeywords(options.seedKeywords || []);
+    const replaceSeeds = options.seedMode === 'replace' && userSeeds.length > 0;
+    const crawlMode = options.crawl?.mode || 'homepage';
+    const { scraper, llm, keywordData } = this.providers;
+    const byStep: Record<string, CostLine> = {};
+    const byProvider: Record<string, CostLine> = {};
+
+    const add = (step: CostStep, provider: string, calls: number, unitUsd: number) => {
+      if (calls <= 0) return;
+      const stepLine = byStep[step] ||= { calls: 0, cost_usd: 0 };
+      const providerLine = byProvider[provider] ||= { calls: 0, cost_usd: 0 };
+      stepLine.calls += calls;
+      stepLine.cost_usd += calls * unitUsd;
+      providerLine.calls += calls;
+      providerLine.cost_usd += calls * unitUsd;
+    };
+
+    // AI generation returns up to 40 seeds; SERPs are fetched for the first 15
+    let seedCount = userSeeds.length;
+    if (!replaceSeeds) {
+      const pages = crawlMode === 'homepage' ? 1 : options.crawl?.maxPages || DEFAULT_MAX_PAGES;
+      add('scrape', scraper.name, pages + (crawlMode === 'firecrawl_map' ? 1 : 0), this.scrapeCallUsd());
+      add('seed_generation', llm.name, 1, this.llmCallUsd(800));
+      seedCount += 40;
+    }
+
+    const dataPrices = keywordDataPrices(keywordData.priority);
+    add('keyword_data', keywordData.name, 1, dataPrices.keywordMetrics);
+    const strategies = options.expansion?.strategies || ['related'];
+    const expansionSeeds = Math.min(options.expansion?.seeds || DEFAULT_EXPANSION_SEEDS, seedCount);
+    if (strategies.includes('related')) {
+      add('keyword_data', keywordData.name, 1, dataPrices.relatedKeywords);
+    }
+    if (strategies.includes('questions')) {
+      add('keyword_data', keywordData.name, expansionSeeds, estimateKeywordSuggestionsUsd(QUESTION_LIMIT));
+    }
+    if (strategies.includes('suggestions')) {
+      add('keyword_data', keywordData.name, expansionSeeds, estimateKeywordSuggestionsUsd(SUGGESTION_LIMIT));
+    }
+    if (strategies.includes('modifiers')) {
+      add('keyword_data', keywordData.name, 1, dataPrices.keywordMetrics);
+    }
+    add('keyword_data', keywordData.name, Math.min(15, seedCount), estimateSerpCallUsd(OWN_RANKING_SERP_DEPTH, keywordData.priority));
+
+    if (llm.missingConfig().length === 0) {
+      add('competitor_research', llm.name, 8, this.llmCallUsd(300));
+    }
+
+    if (options.keywordGap) {
+      add('keyword_gap', keywordData.name, 1, estimateRankedKeywordsUsd(OWN_RANKED_KEYWORDS_LIMIT));
+      add('keyword_gap', keywordData.name, options.keywordGap.competitors || 5, estimateRankedKeywordsUsd(options.keywordGap.keywordsPerDomain || 500));
+    }
+
+    const round = (lines: Record<string, CostLine>) =>
+      Object.fromEntries(Object.entries(lines).map(([key, line]) => [key, { calls: line.calls, cost_usd: Number(line.cost_usd.toFixed(4)) }]));
+    const lines = Object.values(byStep);
+
+    return {
+      currency: 'USD',
+      total_usd: Number(lines.reduce((sum, line) => sum + line.cost_usd, 0).toFixed(4)),
+      calls: lines.reduce((sum, line) => sum + line.calls, 0),
+      by_provider: round(byProvider),
+      by_step: round(byStep),
+      assumptions: [
+        'No cache hits; cached responses cost nothing',
+        'Every crawled page is scraped and competitor research runs for 8 clusters',
+        'LLM calls use a ~1,500 token prompt and the full completion length',
+        'List prices; DataForSEO and some LLM providers report the actual cost, which is used during real runs',
+        `DataForSEO ${keywordData.priority} ${keywordData.priority === 'standard' ? 'queue' : 'endpoints'} for keyword metrics, related keywords and SERPs`
+      ]
+    };
+  }
+
+  // Environment variables still missing for the providers a run will use
+  missingConfig(needs: { scraper?: boolean, llm?: boolean, keywordData?: boolean }): string[] {
+    return [
+      ...(needs.scraper ? this.providers.scraper.missingConfig() : []),
+      ...(needs.llm ? this.providers.llm.missingConfig() : []),
+      ...(needs.keywordData ? this.providers.keywordData.missingConfig() : [])
+    ];
+  }
+
   // Step 1: Scrape website
-  async scrapeWebsite(url: string, apiKey: string) {
-    const response = await fetch('https://api.firecrawl.dev/v1/scrape', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        url: url,
-        formats: ['markdown'],
-        includeTags: ['title', 'meta', 'h1', 'h2', 'h3', 'p'],
-        excludeTags: ['script', 'style', 'nav', 'footer', 'code', 'pre'],
-        onlyMainContent: true,
-        waitFor: 2000
-      })
-    });
+  async scrapeWebsite(url: string): Promise<ScrapedPage> {
+    return this.providers.scraper.scrape(url);
+  }
 
-    if (!response.ok) {
-      throw new Error(`Firecrawl API error: ${response.status} ${response.statusText}`);
+  // Step 1 (crawl modes): scrape the homepage plus pages discovered via sitemap.xml or Firecrawl's map endpoint
+  async crawlWebsite(url: string, options: CrawlOptions = {}): Promise<ScrapedPage[]> {
+    const homepage = await this.costs.requireBudget('scrape', this.scrapeCallUsd(), () => this.scrapeWebsite(url));
+    const mode = options.mode || 'homepage';
+    if (mode === 'homepage') {
+      return [homepage];
     }
 
-    const data = await response.json() as any;
-    
-    if (!data.success) {
-      throw new Error('Failed to scrape website. Please check the URL and try again.');
+    let candidates: string[];
+    if (mode === 'firecrawl_map') {
+      if (!this.providers.scraper.mapSite) {
+        throw new Error(`crawl_mode "firecrawl_map" is not supported by the ${this.providers.scraper.name} scraper. Use "sitemap" or set SCRAPER_PROVIDER=firecrawl.`);
+      }
+      const scraper = this.providers.scraper;
+      candidates = await this.costs.withinBudget('scrape', this.scrapeCallUsd(), () => scraper.mapSite!(url, MAP_CANDIDATE_LIMIT)) || [];
+    } else {
+      candidates = await discoverSitemapUrls(url, this.cache, this.progress.signal);
+    }
+
+    const pageUrls = selectCrawlPages(url, candidates, options);
+    if (pageUrls.length === 0) {
+      console.error(`No additional pages found for ${url} via ${mode}; using the homepage only.`);
     }
 
-    return data.data;
+    // A page that fails to scrape is skipped rather than failing the whole analysis
+    const pages = [homepage];
+    for (const pageUrl of pageUrls) {
+      this.progress.advance(pages.length, pageUrls.length + 1, pageUrl);
+      try {
+        const page = await this.costs.withinBudget('scrape', this.scrapeCallUsd(), () => this.scrapeWebsite(pageUrl));
+        if (!page) break;
+        pages.push(page);
+      } catch (error) {
+        this.progress.throwIfCancelled();
+        this.recordFailure('scrape', pageUrl, error);
+      }
+    }
+
+    return pages;
   }
 
   // FIXED: Commercial score calculation with proper competition handling
@@ -107,38 +469,29 @@ export class KeywordResearchTool {
     let competition = keywordData.competition || 0;
     const competitionLevel = keywordData.competition_level || 'unknown';
     
-    // Convert string competition levels to numeric values
+    // Convert string competition levels to the scoring profile's numeric values
     if (typeof competition !== 'number') {
+      const levels = this.scoring.competition_levels;
       switch (competitionLevel.toUpperCase()) {
         case 'HIGH':
-          competition = 0.8;
+          competition = levels.high;
           break;
         case 'MEDIUM':
-          competition = 0.5;
+          competition = levels.medium;
           break;
         case 'LOW':
-          competition = 0.2;
+          competition = levels.low;
           break;
         default:
-          competition = 0.3; // Default fallback
+          competition = levels.unknown;
       }
     }
     
-    const keyword = (keywordData.keyword || '').toLowerCase();
-    
-    let intentMultiplier = 1;
-    
-    if (keyword.includes('buy') || keyword.includes('purchase') || keyword.includes('order')) {
-      intentMultiplier = 2.5;
-    } else if (keyword.includes('best') || keyword.includes('top') || keyword.includes('review')) {
-      intentMultiplier = 2;
-    } else if (keyword.includes('price') || keyword.includes('cost') || keyword.includes('cheap')) {
-      intentMultiplier = 1.8;
-    } else if (keyword.includes('hire') || keyword.includes('service') || keyword.includes('company')) {
-      intentMultiplier = 1.6;
-    } else if (keyword.includes('how to') || keyword.includes('what is')) {
-      intentMultiplier = 0.8;
-    }
+    // Scale the primary intent's multiplier by how confident the classification is
+    const intent = keywordData.intent || classifyIntent(keywordData.keyword || '');
+    const intentMultiplier = intent.primary
+      ? 1 + (this.scoring.intent_multipliers[intent.primary as SearchIntent] - 1) * intent.confidence
+      : 1;
     
     const validVolume = isNaN(volume) ? 100 : volume;
     const validCpc = isNaN(cpc) ? 0.5 : cpc;
@@ -149,22 +502,12 @@ export class KeywordResearchTool {
   }
 
   // Content cleaning function
-  cleanWebsiteContent(content: string, businessType: string): string {
+  cleanWebsiteContent(content: string, businessType: string, filter: KeywordFilter = new KeywordFilter()): string {
     if (!content) return '';
     
-    const technicalTerms = [
-      'json', 'api', 'javascript', 'html', 'css', 'code', 'function', 'variable',
-      'array', 'object', 'string', 'boolean', 'null', 'undefined', 'console',
-      'log', 'error', 'debug', 'github', 'npm', 'node', 'react', 'vue', 'angular',
-      'webpack', 'babel', 'typescript', 'php', 'python', 'java', 'sql', 'database',
-      'server', 'localhost', 'http', 'https', 'url', 'endpoint', 'crud', 'rest',
-      'graphql', 'oauth', 'jwt', 'cookie', 'session', 'cache', 'cdn', 'aws',
-      'docker', 'kubernetes', 'deployment', 'pipeline', 'repository', 'commit'
-    ];
-    
     const sentences = content.split(/[.!?]+/).filter(sentence => {
       const lowerSentence = sentence.toLowerCase();
-      const techTermCount = technicalTerms.filter(term => lowerSentence.includes(term)).length;
+      const techTermCount = filter.technicalTermCount(lowerSentence);
       
       if (techTermCount > 2) return false;
       if (sentence.trim().length < 20) return false;
@@ -194,37 +537,6 @@ export class KeywordResearchTool {
     return prioritizedSentences.slice(0, 10).join('. ');
   }
 
-  // Filter technical keywords from AI output
-  filterTechnicalKeywords(keywords: string[]): string[] {
-    const technicalTerms = [
-      'json', 'api', 'javascript', 'html', 'css', 'code', 'coding', 'programming',
-      'developer', 'development', 'framework', 'library', 'function', 'variable',
-      'array', 'object', 'string', 'boolean', 'null', 'undefined', 'console',
-      'log', 'error', 'debug', 'github', 'npm', 'node', 'react', 'vue', 'angular',
-      'webpack', 'babel', 'typescript', 'php', 'python', 'java', 'sql', 'database',
-      'server', 'localhost', 'http', 'https', 'url', 'endpoint', 'crud', 'rest',
-      'graphql', 'oauth', 'jwt', 'cookie', 'session', 'cache', 'cdn', 'aws',
-      'docker', 'kubernetes', 'deployment', 'pipeline', 'repository', 'commit',
-      'markdown', 'syntax', 'script', 'tag', 'element', 'attribute', 'dom',
-      'cli', 'terminal', 'command', 'install', 'package', 'module', 'import'
-    ];
-    
-    return keywords.filter(keyword => {
-      const lowerKeyword = keyword.toLowerCase().trim();
-      const containsTechTerm = technicalTerms.some(term => lowerKeyword.includes(term));
-      const looksLikeCode = /[{}[\]<>()=+\-*/\\|&^%$#@!~`]/.test(keyword) ||
-                           keyword.includes('```') ||
-                           keyword.startsWith('function') ||
-                           keyword.startsWith('var ') ||
-                           keyword.startsWith('const ') ||
-                           keyword.startsWith('let ');
-      const genericTerms = ['data', 'information', 'content', 'text', 'format', 'file'];
-      const isGeneric = genericTerms.some(term => lowerKeyword === term);
-      
-      return !containsTechTerm && !looksLikeCode && !isGeneric && keyword.length > 2;
-    });
-  }
-
   // Helper to parse JSON from AI responses, with fallbacks
   extractJsonFromAiResponse(content: string): string[] {
     // Attempt to find JSON within markdown code blocks
@@ -255,13 +567,22 @@ export class KeywordResearchTool {
   }
 
   // Step 2: Generate keywords
-  async generateKeywords(url: string, websiteData: any, businessType: string, apiKey: string): Promise<string[]> {
-    const title = websiteData.metadata?.title || 'N/A';
-    const description = websiteData.metadata?.description || 'N/A';
+  async generateKeywords(
+    url: string,
+    websiteData: ScrapedPage,
+    businessType: string,
+    otherPages: ScrapedPage[] = [],
+    filter: KeywordFilter = new KeywordFilter()
+  ): Promise<string[]> {
+    const title = websiteData.title || 'N/A';
+    const description = websiteData.description || 'N/A';
     const rawContent = websiteData.markdown || '';
     
-    const cleanContent = this.cleanWebsiteContent(rawContent, businessType);
+    const cleanContent = this.cleanWebsiteContent(rawContent, businessType, filter);
     const content = cleanContent.substring(0, 1500);
+    const pageSummary = this.summarizePages(otherPages, businessType, filter);
+    const { exclude_terms, competitor_brands, drop_brands, technical_filter } = filter.filters;
+    const avoidTerms = [...exclude_terms, ...(drop_brands !== 'none' ? competitor_brands : [])];
 
     const prompt = `Analyze this ${businessType} website and generate 50 diverse seed keywords covering different aspects of the business:
 
@@ -270,7 +591,10 @@ Business Type: ${businessType}
 Title: ${title}
 Description: ${description}
 Content: ${content}
-
+${pageSummary ? `
+Other pages on the site (cover the products, services and topics they show, not just the homepage):
+${pageSummary}
+` : ''}
 Based on this analysis, generate 50 DIVERSE seed keywords covering the full customer journey. Include a mix of:
 
 **AWARENESS STAGE (broad, educational):**
@@ -298,43 +622,20 @@ Based on this analysis, generate 50 DIVERSE seed keywords covering the full cust
 - Include seasonal/timely variations if relevant
 - Add related service/product categories
 
-AVOID technical development terms like "json", "api", "code", etc.
-Focus on what REAL CUSTOMERS search for across their entire journey.
+${technical_filter ? `AVOID technical development terms like "json", "api", "code", etc.
+` : ''}${avoidTerms.length > 0 ? `Do NOT use these terms or brands: ${avoidTerms.join(', ')}
+` : ''}Focus on what REAL CUSTOMERS search for across their entire journey.
 
 Return ONLY a JSON array of keyword strings, no explanations:`;
 
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'accept': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'sonar-pro',
-        messages: [
-          { role: 'system', content: `You are an expert SEO strategist specializing in ${businessType} businesses.` },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 800,
-        temperature: 0.2
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Perplexity API Error Details:', {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries()),
-        body: errorText,
-        url: response.url
-      });
-      throw new Error(`Perplexity API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+    const completion = await this.costs.requireBudget('seed_generation', this.llmCallUsd(800), () => this.providers.llm.complete({
+      system: `You are an expert SEO strategist specializing in ${businessType} businesses.`,
+      prompt: prompt,
+      maxTokens: 800,
+      temperature: 0.2
+    }));
 
-    const data = await response.json() as any;
-    let content_text = data.choices[0].message.content.trim();
+    let content_text = completion;
     
     content_text = content_text.replace(/```json\s*/g, '').replace(/```\s*/g, '');
 
@@ -354,108 +655,168 @@ Return ONLY a JSON array of keyword strings, no explanations:`;
       throw new Error('Failed to generate keywords from website content.');
     }
 
-    const filteredKeywords = this.filterTechnicalKeywords(keywords);
+    const filteredKeywords = filter.apply(keywords, 'seeds', keyword => keyword);
     return filteredKeywords.slice(0, 40);
   }
 
-  // Step 3a: Get keyword metrics
-  async getKeywordMetrics(keywords: string[], username: string, password: string) {
-    const credentials = Buffer.from(`${username}:${password}`).toString('base64');
-    
-    const response = await fetch('https://api.dataforseo.com/v3/keywords_data/google_ads/search_volume/live', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify([{
-        keywords: keywords,
-        location_code: 2840, // United States
-        language_code: 'en',
-        include_serp_info: true,
-        include_clickstream_data: true
-      }])
-    });
+  // One line per crawled page (path, title, description and a content excerpt), capped so the prompt stays small
+  summarizePages(pages: ScrapedPage[], businessType: string, filter: KeywordFilter = new KeywordFilter()): string {
+    const lines: string[] = [];
+    let length = 0;
+
+    for (const page of pages) {
+      let pagePath = page.url;
+      try {
+        pagePath = new URL(page.url).pathname;
+      } catch {
+        // Keep the raw URL
+      }
 
-    if (!response.ok) {
-      throw new Error(`DataForSEO keyword metrics error: ${response.status} ${response.statusText}`);
+      const excerpt = this.cleanWebsiteContent(page.markdown || '', businessType, filter).replace(/\s+/g, ' ').substring(0, 200);
+      const line = `- ${pagePath} | ${page.title || 'N/A'}${page.description ? ` | ${page.description}` : ''}${excerpt ? ` | ${excerpt}` : ''}`;
+
+      if (length + line.length > 4000) break;
+      lines.push(line);
+      length += line.length;
     }
 
-    return await response.json();
+    return lines.join('\n');
+  }
+
+  // Step 3a: Get keyword metrics
+  async getKeywordMetrics(keywords: string[], market: Market = DEFAULT_MARKET) {
+    return this.providers.keywordData.getKeywordMetrics(keywords, market);
   }
 
   // Step 3b: Get related keywords
-  async getRelatedKeywords(keywords: string[], username: string, password: string) {
-    const credentials = Buffer.from(`${username}:${password}`).toString('base64');
-    
-    const response = await fetch('https://api.dataforseo.com/v3/keywords_data/google_ads/keywords_for_keywords/live', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify([{
-        keywords: keywords.slice(0, 20),
-        location_code: 2840,
-        language_code: 'en',
-        include_serp_info: true,
-        limit: 1000,
-        order_by: ['search_volume,desc']
-      }])
-    });
+  async getRelatedKeywords(keywords: string[], market: Market = DEFAULT_MARKET) {
+    return this.providers.keywordData.getRelatedKeywords(keywords.slice(0, 20), market);
+  }
 
-    if (!response.ok) {
-      throw new Error(`DataForSEO related keywords error: ${response.status} ${response.statusText}`);
-    }
+  // Keywords containing a seed, from DataForSEO Labs; pattern narrows them (e.g., to questions)
+  async getKeywordSuggestions(seed: string, market: Market, limit: number, pattern?: string) {
+    return this.providers.keywordData.getKeywordSuggestions(seed, market, limit, pattern);
+  }
 
-    return await response.json();
+  // Flatten a keyword suggestions response into keyword metrics items
+  parseKeywordSuggestions(response: any): any[] {
+    const items = response.tasks?.[0]?.result?.[0]?.items || [];
+    return items
+      .filter((item: any) => item.keyword)
+      .map((item: any) => ({
+        keyword: item.keyword,
+        search_volume: item.keyword_info?.search_volume || 0,
+        cpc: item.keyword_info?.cpc || 0,
+        competition: item.keyword_info?.competition || 0,
+        competition_level: item.keyword_info?.competition_level || 'unknown',
+        keyword_difficulty: item.keyword_properties?.keyword_difficulty
+      }));
   }
 
-  // Step 3c: Get SERP data
-  async getSerpData(keywords: string[], username: string, password: string) {
-    const credentials = Buffer.from(`${username}:${password}`).toString('base64');
-    
-    // FIX: DataForSEO Live SERP API accepts only ONE keyword per request
-    // Make individual requests for each keyword instead of bulk request
-    const results = [];
-    
-    for (const keyword of keywords.slice(0, 15)) {
+  // Expand the first seeds with the questions, suggestions and modifiers strategies; related keywords have their own step.
+  // A failed lookup is recorded and listed in failed so that a resumed job retries the step.
+  async expandKeywords(seeds: string[], market: Market, options: ExpansionOptions = {}): Promise<{ keywords: ExpandedKeyword[], failed: string[] }> {
+    const strategies = options.strategies || ['related'];
+    const expansionSeeds = seeds.slice(0, options.seeds || DEFAULT_EXPANSION_SEEDS);
+    const failed: string[] = [];
+
+    const recordLookupFailure = (item: string, error: unknown) => {
+      this.progress.throwIfCancelled();
+      this.recordFailure('keyword_data', item, error);
+      failed.push(item);
+    };
+
+    const lookups: { strategy: ExpansionStrategy, seed: string, limit: number, pattern?: string }[] = [
+      ...(strategies.includes('questions') ? expansionSeeds.map(seed => ({ strategy: 'questions' as const, seed, limit: QUESTION_LIMIT, pattern: QUESTION_PATTERN })) : []),
+      ...(strategies.includes('suggestions') ? expansionSeeds.map(seed => ({ strategy: 'suggestions' as const, seed, limit: SUGGESTION_LIMIT })) : [])
+    ];
+
+    const suggestionResults = lookups.map(async ({ strategy, seed, limit, pattern }): Promise<ExpandedKeyword[]> => {
       try {
-        const serpRequest = [{
-          keyword: keyword,
-          location_code: 2840,
-          language_code: 'en',
-          device: 'desktop',
-          depth: 5
-        }];
-        
-        const response = await fetch('https://api.dataforseo.com/v3/serp/google/organic/live/advanced', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Basic ${credentials}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(serpRequest)
-        });
+        const response = await this.costs.withinBudget('keyword_data', estimateKeywordSuggestionsUsd(limit), () =>
+          this.getKeywordSuggestions(seed, market, limit, pattern)
+        );
+        return response ? this.parseKeywordSuggestions(response).map(item => ({ item, strategy, seed })) : [];
+      } catch (error) {
+        recordLookupFailure(`${strategy} for "${seed}"`, error);
+        return [];
+      }
+    });
 
-        if (!response.ok) {
-          console.warn(`DataForSEO SERP error for keyword "${keyword}": ${response.status} ${response.statusText}`);
-          continue;
-        }
+    // Template keywords are looked up in one metrics call; only those with search volume are kept
+    const modifierResults = (async (): Promise<ExpandedKeyword[]> => {
+      if (!strategies.includes('modifiers')) return [];
+      const candidates = applyModifierTemplates(expansionSeeds, options.modifierTemplates || DEFAULT_MODIFIER_TEMPLATES);
+      if (candidates.length === 0) return [];
+      const seedOf = new Map(candidates.map(candidate => [candidate.keyword, candidate.seed]));
+      try {
+        const response = await this.costs.withinBudget('keyword_data', keywordDataPrices(this.providers.keywordData.priority).keywordMetrics, () =>
+          this.getKeywordMetrics(candidates.map(candidate => candidate.keyword), market)
+        );
+        return (response?.tasks?.[0]?.result || [])
+          .filter((item: any) => item.keyword && item.search_volume > 0)
+          .map((item: any) => ({ item, strategy: 'modifiers' as const, seed: seedOf.get(String(item.keyword).toLowerCase()) ?? null }));
+      } catch (error) {
+        recordLookupFailure(`modifier keywords (${candidates.length})`, error);
+        return [];
+      }
+    })();
 
-        const data = await response.json();
-        results.push(data);
-        
-        // Add small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
+    const results = await Promise.all([...suggestionResults, modifierResults]);
+    return { keywords: results.flat(), failed };
+  }
+
+  // Step 3c: Get SERP data
+  async getSerpData(keywords: string[], market: Market = DEFAULT_MARKET, depth: number = 5, limit: number = 15) {
+    // The live SERP endpoint takes one keyword per request; requests run in parallel within the DataForSEO
+    // client's concurrency and rate limits, and results keep the keyword order
+    const failedKeywords: string[] = [];
+    const serpKeywords = keywords.slice(0, limit);
+    let done = 0;
+
+    const results = await Promise.all(serpKeywords.map(async keyword => {
+      try {
+        return await this.costs.withinBudget('keyword_data', estimateSerpCallUsd(depth, this.providers.keywordData.priority), () => this.providers.keywordData.getSerp(keyword, market, depth));
       } catch (error) {
-        console.warn(`Error fetching SERP data for keyword "${keyword}":`, error);
-        continue;
+        this.progress.throwIfCancelled();
+        this.recordFailure('keyword_data', `SERP for "${keyword}"`, error);
+        failedKeywords.push(keyword);
+        return null;
+      } finally {
+        this.progress.advance(++done, serpKeywords.length, `SERP for "${keyword}"`);
       }
-    }
+    }));
     
     // Return results in the same format as before
-    return { tasks: results.flatMap(result => (result as any).tasks || []) };
+    return { tasks: results.flatMap(result => (result as any)?.tasks || []), failed_keywords: failedKeywords };
+  }
+
+  // Where domain ranks for each keyword right now, from one SERP lookup per keyword; keywords whose lookup failed are left out
+  async checkRankings(keywords: string[], domain: string, market: Market, depth: number): Promise<RankCheck[]> {
+    const serpData = await this.getSerpData(keywords, market, depth, keywords.length);
+    const checkedAt = new Date().toISOString();
+    // Results echo the keyword as DataForSEO normalized it; report it as it was tracked
+    const tracked = new Map(keywords.map(kw => [kw.toLowerCase(), kw]));
+
+    return serpData.tasks.flatMap((task: any) => {
+      const result = task.result?.[0];
+      const keyword = result?.keyword ? tracked.get(String(result.keyword).toLowerCase()) : undefined;
+      if (!keyword) return [];
+
+      const ownResult = (result.items || []).find((item: any) =>
+        item.type === 'organic' && item.url && this.belongsToDomain(this.extractDomain(item.url), domain)
+      );
+      return [{
+        checked_at: checkedAt,
+        keyword,
+        domain,
+        location_code: market.location_code,
+        language_code: market.language_code,
+        position: ownResult ? (ownResult.rank_group || ownResult.rank_absolute || null) : null,
+        url: ownResult ? ownResult.url : null,
+        depth
+      }];
+    });
   }
 
   extractDomain(url: string): string {
@@ -557,50 +918,116 @@ Return ONLY a JSON array of keyword strings, no explanations:`;
     return isNaN(finalDifficulty) ? 30 : finalDifficulty;
   }
 
-  createClusters(keywords: KeywordData[]): KeywordCluster[] {
+  // Start a new cluster around its main keyword
+  startCluster(keyword: KeywordData, clusterId: number): KeywordCluster {
+    return {
+      cluster_id: clusterId,
+      main_keyword: keyword.keyword,
+      theme: this.identifyTheme([keyword]),
+      keywords: [keyword],
+      total_search_volume: keyword.search_volume || 0,
+      avg_cpc: isNaN(keyword.cpc) ? 0.5 : keyword.cpc,
+      avg_difficulty: isNaN(keyword.keyword_difficulty) ? 30 : keyword.keyword_difficulty,
+      total_commercial_score: isNaN(keyword.commercial_score) ? 100 : keyword.commercial_score,
+      competitor_domains: [...new Set(keyword.serp_urls.map(url => url.domain).filter(d => d))],
+      ranking_status: this.rankingStatus(keyword.own_position),
+      best_own_position: keyword.own_position,
+      ranking_keyword_count: keyword.own_position !== null ? 1 : 0
+    };
+  }
+
+  addToCluster(cluster: KeywordCluster, otherKeyword: KeywordData): void {
+    cluster.keywords.push(otherKeyword);
+    cluster.total_search_volume += (otherKeyword.search_volume || 0);
+    cluster.theme = this.identifyTheme(cluster.keywords);
+    
+    const currentCpc = isNaN(cluster.avg_cpc) ? 0 : cluster.avg_cpc;
+    const otherCpc = isNaN(otherKeyword.cpc) ? 0 : otherKeyword.cpc;
+    cluster.avg_cpc = (currentCpc + otherCpc) / 2;
+    
+    const currentDiff = isNaN(cluster.avg_difficulty) ? 30 : cluster.avg_difficulty;
+    const otherDiff = isNaN(otherKeyword.keyword_difficulty) ? 30 : otherKeyword.keyword_difficulty;
+    cluster.avg_difficulty = (currentDiff + otherDiff) / 2;
+    
+    cluster.total_commercial_score += (otherKeyword.commercial_score || 0);
+    
+    const otherDomains = otherKeyword.serp_urls.map(url => url.domain).filter(d => d);
+    cluster.competitor_domains = [...new Set([...cluster.competitor_domains, ...otherDomains])];
+
+    if (otherKeyword.own_position !== null) {
+      cluster.ranking_keyword_count++;
+      if (cluster.best_own_position === null || otherKeyword.own_position < cluster.best_own_position) {
+        cluster.best_own_position = otherKeyword.own_position;
+        cluster.ranking_status = this.rankingStatus(cluster.best_own_position);
+      }
+    }
+  }
+
+  rankingStatus(position: number | null): RankingStatus {
+    if (position === null || position > 20) return 'not_ranking';
+    return position <= 3 ? 'ranking' : 'striking_distance';
+  }
+
+  // True when a domain is the given site or one of its subdomains
+  belongsToDomain(domain: string, site: string): boolean {
+    return !!site && (domain === site || domain.endsWith(`.${site}`));
+  }
+
+  // Compare ranking URLs without protocol, www, query string, fragment or trailing slash
+  normalizeSerpUrl(url: string): string {
+    return url
+      .toLowerCase()
+      .replace(/^https?:\/\//, '')
+      .replace(/^www\./, '')
+      .replace(/[?#].*$/, '')
+      .replace(/\/+$/, '');
+  }
+
+  sharesWords(mainWords: string[], otherKeyword: KeywordData): boolean {
+    const otherWords = otherKeyword.keyword.toLowerCase().split(' ');
+    const commonWords = mainWords.filter(word => otherWords.includes(word) && word.length > 3);
+    return commonWords.length >= Math.min(mainWords.length, otherWords.length) * 0.5;
+  }
+
+  createClusters(keywords: KeywordData[], options: ClusterOptions = {}): KeywordCluster[] {
+    const mode = options.mode || 'word_overlap';
+    const minSharedUrls = options.minSharedUrls || 3;
+    const maxClusterSize = options.maxClusterSize || 10;
+    const maxClusters = options.maxClusters || 15;
+
     const clusters: KeywordCluster[] = [];
     const processed = new Set<string>();
     const sortedKeywords = keywords.sort((a, b) => b.commercial_score - a.commercial_score);
+    const serpUrlSets = new Map<string, Set<string>>(
+      sortedKeywords.map(kw => [kw.keyword, new Set(kw.serp_urls.slice(0, 10).map(url => this.normalizeSerpUrl(url.url)))])
+    );
     
     sortedKeywords.forEach(keyword => {
       if (processed.has(keyword.keyword)) return;
       
-      const cluster: KeywordCluster = {
-        cluster_id: clusters.length + 1,
-        main_keyword: keyword.keyword,
-        theme: this.identifyTheme(keyword.keyword),
-        keywords: [keyword],
-        total_search_volume: keyword.search_volume || 0,
-        avg_cpc: isNaN(keyword.cpc) ? 0.5 : keyword.cpc,
-        avg_difficulty: isNaN(keyword.keyword_difficulty) ? 30 : keyword.keyword_difficulty,
-        total_commercial_score: isNaN(keyword.commercial_score) ? 100 : keyword.commercial_score,
-        competitor_domains: [...new Set(keyword.serp_urls.map(url => url.domain).filter(d => d))]
-      };
-      
+      const cluster = this.startCluster(keyword, clusters.length + 1);
       const mainWords = keyword.keyword.toLowerCase().split(' ');
+      const mainUrls = serpUrlSets.get(keyword.keyword)!;
+      // In SERP mode, keywords without SERP data fall back to word overlap among themselves
+      const bySerp = mode === 'serp_overlap' && mainUrls.size > 0;
+
       sortedKeywords.forEach(otherKeyword => {
         if (processed.has(otherKeyword.keyword) || otherKeyword.keyword === keyword.keyword) return;
-        
-        const otherWords = otherKeyword.keyword.toLowerCase().split(' ');
-        const commonWords = mainWords.filter(word => otherWords.includes(word) && word.length > 3);
-        
-        if (commonWords.length >= Math.min(mainWords.length, otherWords.length) * 0.5 && cluster.keywords.length < 10) {
-          cluster.keywords.push(otherKeyword);
-          cluster.total_search_volume += (otherKeyword.search_volume || 0);
-          
-          const currentCpc = isNaN(cluster.avg_cpc) ? 0 : cluster.avg_cpc;
-          const otherCpc = isNaN(otherKeyword.cpc) ? 0 : otherKeyword.cpc;
-          cluster.avg_cpc = (currentCpc + otherCpc) / 2;
-          
-          const currentDiff = isNaN(cluster.avg_difficulty) ? 30 : cluster.avg_difficulty;
-          const otherDiff = isNaN(otherKeyword.keyword_difficulty) ? 30 : otherKeyword.keyword_difficulty;
-          cluster.avg_difficulty = (currentDiff + otherDiff) / 2;
-          
-          cluster.total_commercial_score += (otherKeyword.commercial_score || 0);
-          
-          const otherDomains = otherKeyword.serp_urls.map(url => url.domain).filter(d => d);
-          cluster.competitor_domains = [...new Set([...cluster.competitor_domains, ...otherDomains])];
-          
+        if (cluster.keywords.length >= maxClusterSize) return;
+
+        const otherUrls = serpUrlSets.get(otherKeyword.keyword)!;
+        let related: boolean;
+        if (bySerp) {
+          const sharedUrls = [...otherUrls].filter(url => mainUrls.has(url)).length;
+          related = sharedUrls >= minSharedUrls;
+        } else if (mode === 'serp_overlap' && otherUrls.size > 0) {
+          related = false;
+        } else {
+          related = this.sharesWords(mainWords, otherKeyword);
+        }
+
+        if (related) {
+          this.addToCluster(cluster, otherKeyword);
           processed.add(otherKeyword.keyword);
         }
       });
@@ -609,72 +1036,59 @@ Return ONLY a JSON array of keyword strings, no explanations:`;
       clusters.push(cluster);
     });
     
-    return clusters.sort((a, b) => b.total_commercial_score - a.total_commercial_score).slice(0, 15);
+    return clusters.sort((a, b) => b.total_commercial_score - a.total_commercial_score).slice(0, maxClusters);
   }
 
-  identifyTheme(keyword: string): string {
-    const kw = keyword.toLowerCase();
-    if (kw.includes('buy') || kw.includes('purchase')) return '💰 Purchase Intent';
-    if (kw.includes('best') || kw.includes('top') || kw.includes('review')) return '🔍 Research & Comparison';
-    if (kw.includes('how to') || kw.includes('guide')) return '📚 Educational';
-    if (kw.includes('price') || kw.includes('cost')) return '💲 Price Research';
-    return '🎯 General';
-  }
-
-  // Step 4: Analyze and cluster keywords
-  async analyzeAndCluster(keywordMetrics: any, relatedKeywords: any, serpData: any, businessType: string): Promise<KeywordCluster[]> {
-    const keywordDB = new Map<string, KeywordData>();
-
-    // Process keyword metrics
-    const volumeResults = keywordMetrics.tasks?.[0]?.result || [];
-    volumeResults.forEach((item: any) => {
-      if (item.keyword && item.search_volume > 0) {
-        const initialDifficulty = this.estimateDifficultyFromMetrics(item);
-        keywordDB.set(item.keyword, {
-          keyword: item.keyword,
-          search_volume: item.search_volume,
-          cpc: item.cpc || 0,
-          competition: item.competition || 0,
-          competition_level: item.competition_level || 'unknown',
-          keyword_difficulty: initialDifficulty,
-          serp_urls: [],
-          commercial_score: this.calculateCommercialScore(item, businessType),
-          is_seed: true
-        });
-      }
+  // Theme from the dominant primary intent of a cluster's keywords, weighted by search volume and confidence
+  identifyTheme(keywords: KeywordData[]): string {
+    const weights = new Map<SearchIntent, number>();
+    keywords.forEach(kw => {
+      if (!kw.intent?.primary) return;
+      const weight = Math.max(kw.search_volume || 0, 1) * kw.intent.confidence;
+      weights.set(kw.intent.primary, (weights.get(kw.intent.primary) || 0) + weight);
     });
 
-    // Add related keywords
-    const relatedResults = relatedKeywords.tasks?.[0]?.result || [];
-    relatedResults
-      .filter((item: any) => item.search_volume > 50)
-      .slice(0, 500)
-      .forEach((item: any) => {
-        if (!keywordDB.has(item.keyword)) {
-          const initialDifficulty = this.estimateDifficultyFromMetrics(item);
-          keywordDB.set(item.keyword, {
-            keyword: item.keyword,
-            search_volume: item.search_volume,
-            cpc: item.cpc || 0,
-            competition: item.competition || 0,
-            competition_level: item.competition_level || 'unknown',
-            keyword_difficulty: initialDifficulty,
-            serp_urls: [],
-            commercial_score: this.calculateCommercialScore(item, businessType),
-            is_seed: false
-          });
-        }
-      });
+    const dominant = [...weights.entries()].sort((a, b) => b[1] - a[1])[0];
+    return dominant ? INTENT_THEMES[dominant[0]] : '🎯 General';
+  }
 
-    // Process SERP data
+  // Build a KeywordData record from a DataForSEO keyword metrics item
+  buildKeywordData(item: any, businessType: string, source: KeywordSource): KeywordData {
+    const intent = classifyIntent(item.keyword);
+    return {
+      keyword: item.keyword,
+      search_volume: item.search_volume || 0,
+      cpc: item.cpc || 0,
+      competition: item.competition || 0,
+      competition_level: item.competition_level || 'unknown',
+      keyword_difficulty: this.estimateDifficultyFromMetrics(item),
+      serp_urls: [],
+      commercial_score: this.calculateCommercialScore({ ...item, intent }, businessType),
+      is_seed: source === 'user' || source === 'ai',
+      source: source,
+      intent: intent,
+      serp_features: null,
+      own_position: null,
+      own_url: null
+    };
+  }
+
+  // Attach top organic URLs and SERP-based difficulty to keywords we already hold, record where ownDomain ranks,
+  // and re-score intent with the SERP features that were shown
+  applySerpData(keywordDB: Map<string, KeywordData>, serpData: any, businessType: string, ownDomain: string = ''): void {
     const serpResults = serpData.tasks || [];
+    // DataForSEO may normalize the case of the keyword it echoes back
+    const byKeyword = new Map<string, KeywordData>();
+    keywordDB.forEach((keywordData, keyword) => byKeyword.set(keyword.toLowerCase(), keywordData));
     
     serpResults.forEach((task: any) => {
       if (task.result?.[0]?.items) {
-        const keyword = task.data?.[0]?.keyword;
+        const serpKeyword = task.data?.keyword ?? task.result[0].keyword;
         const items = task.result[0].items;
+        const keywordData = typeof serpKeyword === 'string' ? byKeyword.get(serpKeyword.toLowerCase()) : undefined;
         
-        if (keyword && keywordDB.has(keyword)) {
+        if (keywordData) {
+          const keyword = keywordData.keyword;
           const organicResults = items.filter((item: any) => item.type === 'organic' && item.url);
           
           const topUrls: SerpUrl[] = organicResults.slice(0, 10).map((item: any) => ({
@@ -684,100 +1098,391 @@ Return ONLY a JSON array of keyword strings, no explanations:`;
             position: item.rank_group || item.rank_absolute || 0
           })).filter((item: SerpUrl) => item.domain && item.domain.length > 0);
           
-          const keywordData = keywordDB.get(keyword)!;
           keywordData.serp_urls = topUrls;
+
+          const ownResult = organicResults.find((item: any) => this.belongsToDomain(this.extractDomain(item.url), ownDomain));
+          keywordData.own_position = ownResult ? (ownResult.rank_group || ownResult.rank_absolute || null) : null;
+          keywordData.own_url = ownResult ? ownResult.url : null;
+
+          keywordData.serp_features = parseSerpFeatures(items);
+          keywordData.intent = classifyIntent(keyword, keywordData.serp_features.types);
+          keywordData.commercial_score = this.calculateCommercialScore(keywordData, businessType);
           
+          // Snippets, knowledge panels, packs and heavy ads make a SERP harder to break into
           const serpDifficulty = this.calculateDifficulty(organicResults);
           const fallbackDifficulty = this.estimateDifficultyFromMetrics(keywordData);
-          keywordData.keyword_difficulty = serpDifficulty > 0 ? serpDifficulty : fallbackDifficulty;
+          const baseDifficulty = serpDifficulty > 0 ? serpDifficulty : fallbackDifficulty;
+          keywordData.keyword_difficulty = Math.min(100, baseDifficulty + serpFeatureDifficulty(keywordData.serp_features));
         }
       }
     });
-
-    const keywordsArray = Array.from(keywordDB.values()).filter(kw => kw.search_volume > 20);
-    return this.createClusters(keywordsArray);
   }
 
-  // Step 5: Research competitors using AI
-  async researchCompetitors(clusters: KeywordCluster[], businessType: string, apiKey: string): Promise<KeywordCluster[]> {
-    const topClusters = clusters.slice(0, 8);
-    
-    for (let i = 0; i < topClusters.length; i++) {
-      const cluster = topClusters[i];
-      
-      try {
-        const topKeywords = cluster.keywords.slice(0, 5).map(kw => kw.keyword);
-        const prompt = `Research the competitive landscape for these ${businessType} keywords: ${topKeywords.join(', ')}
+  // Step 4: Analyze and cluster keywords
+  async analyzeAndCluster(
+    keywordMetrics: any,
+    relatedKeywords: any,
+    serpData: any,
+    businessType: string,
+    userSeeds: string[] = [],
+    clusterOptions: ClusterOptions = {},
+    ownDomain: string = '',
+    expanded: ExpandedKeyword[] = [],
+    filter: KeywordFilter = new KeywordFilter()
+  ): Promise<KeywordCluster[]> {
+    const keywordDB = new Map<string, KeywordData>();
+    const userSeedSet = new Set(userSeeds.map(kw => kw.toLowerCase()));
 
-Find the top 8-10 companies/websites that currently dominate these search terms. Focus on:
-1. Direct competitors (same business type)
-2. Industry leaders and established players
-3. Popular platforms in this space
-4. Companies that frequently appear in search results
+    // Process keyword metrics
+    const volumeResults = keywordMetrics.tasks?.[0]?.result || [];
+    volumeResults.forEach((item: any) => {
+      if (item.keyword && item.search_volume > 0) {
+        const source: KeywordSource = userSeedSet.has(item.keyword.toLowerCase()) ? 'user' : 'ai';
+        keywordDB.set(item.keyword, this.buildKeywordData(item, businessType, source));
+      }
+    });
 
-Return ONLY the domain names (like example.com) as a JSON array, no explanations or descriptions. Focus on legitimate business domains, not directories or generic sites.`;
+    // Add related keywords, attributed to the closest seed
+    const seeds = volumeResults.map((item: any) => item.keyword).filter(Boolean);
+    // min_volume, when set, replaces the built-in floors here and before clustering
+    const customMinVolume = filter.filters.min_volume !== null;
+    const relatedResults = (relatedKeywords.tasks?.[0]?.result || []).filter((item: any) => item.keyword && (customMinVolume || item.search_volume > 50));
+    filter.apply(relatedResults, 'related', (item: any) => item.keyword, (item: any) => item.search_volume || 0)
+      .slice(0, 500)
+      .forEach((item: any) => {
+        if (!keywordDB.has(item.keyword)) {
+          const keywordData = this.buildKeywordData(item, businessType, 'related');
+          keywordData.expansion = { strategy: 'related', seed: closestSeed(item.keyword, seeds) };
+          keywordDB.set(item.keyword, keywordData);
+        }
+      });
 
-        const response = await fetch('https://api.perplexity.ai/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          },
-                  body: JSON.stringify({
-          model: 'sonar-pro',
-          messages: [
-            { role: 'system', content: `You are a competitive intelligence researcher specializing in ${businessType} markets.` },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 300,
-          temperature: 0.1
-        })
-        });
+    // Add keywords from the other expansion strategies; a keyword found by several keeps the first
+    filter.apply(expanded, 'related', entry => entry.item.keyword, entry => entry.item.search_volume || 0).forEach(({ item, strategy, seed }) => {
+      if (keywordDB.has(item.keyword)) return;
+      const keywordData = this.buildKeywordData(item, businessType, 'related');
+      // DataForSEO Labs reports its own difficulty, which is better than the estimate from metrics
+      if (item.keyword_difficulty) {
+        keywordData.keyword_difficulty = item.keyword_difficulty;
+      }
+      keywordData.expansion = { strategy, seed };
+      keywordDB.set(item.keyword, keywordData);
+    });
 
-        if (response.ok) {
-          const data = await response.json() as any;
-          const content = data.choices[0].message.content.trim();
-          
-          const competitors = this.extractJsonFromAiResponse(content);
-          
-          if (Array.isArray(competitors) && competitors.length > 0) {
-            // Clean and filter the competitors
-            const cleanCompetitors = competitors
-              .map(domain => {
-                // Clean domain format
-                return domain.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0].toLowerCase();
-              })
-              .filter(domain => {
-                // Filter out invalid domains
-                return domain && 
-                       domain.includes('.') && 
-                       !domain.includes(' ') &&
-                       domain.length > 3 &&
-                       domain.length < 50;
-              })
-              .slice(0, 8);
-            
-            cluster.ai_competitors = cleanCompetitors;
-            // Debug: Found AI competitors for cluster
-          } else {
-            // Debug: Failed to parse AI competitor response
-            cluster.ai_competitors = [];
-          }
+    // Process SERP data
+    this.applySerpData(keywordDB, serpData, businessType, ownDomain);
+
+    // Brand keywords are navigational whatever their modifiers or SERP features say
+    keywordDB.forEach(keywordData => {
+      filter.tagBrand(keywordData);
+      if (keywordData.brand) {
+        keywordData.commercial_score = this.calculateCommercialScore(keywordData, businessType);
+      }
+    });
+
+    // User seeds are kept whatever the filters say
+    const keywordsArray = filter.apply(
+      Array.from(keywordDB.values()).filter(kw => customMinVolume || kw.search_volume > 20),
+      'clustering',
+      kw => kw.keyword,
+      kw => kw.search_volume,
+      kw => kw.source === 'user'
+    );
+    return this.createClusters(keywordsArray, clusterOptions);
+  }
+
+  // Metrics, difficulty and commercial score for a keyword list supplied by the user
+  async getKeywordListData(
+    keywords: string[],
+    businessType: string,
+    options: { market?: Market, includeSerp?: boolean, serpDepth?: number } = {}
+  ): Promise<{ keywords: KeywordData[], missing: string[] }> {
+    const market = options.market || DEFAULT_MARKET;
+
+    const uniqueKeywords = [...new Set(keywords.map(kw => kw.trim()).filter(kw => kw.length > 0))];
+
+    const keywordMetrics = await this.costs.runStep('keyword_data', () => this.getKeywordMetrics(uniqueKeywords, market));
+    const keywordDB = new Map<string, KeywordData>();
+
+    const volumeResults = keywordMetrics.tasks?.[0]?.result || [];
+    volumeResults.forEach((item: any) => {
+      if (item.keyword) {
+        keywordDB.set(item.keyword, this.buildKeywordData(item, businessType, 'user'));
+      }
+    });
+
+    if (options.includeSerp !== false) {
+      // Only look up SERPs for keywords that actually have search demand
+      const serpKeywords = Array.from(keywordDB.values())
+        .filter(kw => kw.search_volume > 0)
+        .sort((a, b) => b.search_volume - a.search_volume)
+        .map(kw => kw.keyword);
+      const serpData = await this.getSerpData(serpKeywords, market, options.serpDepth);
+      this.applySerpData(keywordDB, serpData, businessType);
+    }
+
+    const found = new Set(Array.from(keywordDB.keys()).map(kw => kw.toLowerCase()));
+    const missing = uniqueKeywords.filter(kw => !found.has(kw.toLowerCase()));
+
+    return {
+      keywords: Array.from(keywordDB.values()).sort((a, b) => b.commercial_score - a.commercial_score),
+      missing
+    };
+  }
+
+  // Competitor domains ordered by how many collected SERPs they appear in, then AI-suggested ones,
+  // leaving out the analyzed site and generic platforms
+  topCompetitorDomains(clusters: KeywordCluster[], ownDomain: string, count: number): string[] {
+    const appearances = new Map<string, number>();
+    clusters.forEach(cluster => cluster.keywords.forEach(kw => kw.serp_urls.forEach(serpUrl => {
+      appearances.set(serpUrl.domain, (appearances.get(serpUrl.domain) || 0) + 1);
+    })));
+
+    const serpDomains = [...appearances.entries()].sort((a, b) => b[1] - a[1]).map(([domain]) => domain);
+    const aiDomains = clusters.flatMap(c => c.ai_competitors || []).map(domain => domain.toLowerCase().replace(/^www\./, ''));
+
+    return [...new Set([...serpDomains, ...aiDomains])]
+      .filter(domain => domain && !this.belongsToDomain(domain, ownDomain) && !GENERIC_DOMAINS.some(generic => this.belongsToDomain(domain, generic)))
+      .slice(0, count);
+  }
+
+  // Flatten a ranked-keywords response into keyword metrics plus the domain's position and URL
+  parseRankedKeywords(response: any): any[] {
+    const items = response.tasks?.[0]?.result?.[0]?.items || [];
+    return items
+      .filter((item: any) => item.keyword_data?.keyword)
+      .map((item: any) => ({
+        keyword: item.keyword_data.keyword,
+        search_volume: item.keyword_data.keyword_info?.search_volume || 0,
+        cpc: item.keyword_data.keyword_info?.cpc || 0,
+        competition: item.keyword_data.keyword_info?.competition || 0,
+        competition_level: item.keyword_data.keyword_info?.competition_level || 'unknown',
+        keyword_difficulty: item.keyword_data.keyword_properties?.keyword_difficulty,
+        position: item.ranked_serp_element?.serp_item?.rank_group || 0,
+        url: item.ranked_serp_element?.serp_item?.url || ''
+      }));
+  }
+
+  // Keywords at least minCompetitors of the competitor domains rank for and ownDomain does not (and that are not in
+  // excludeKeywords). A failed competitor lookup is recorded and left out; the gap fails only without ownDomain's
+  // keywords or any competitor's.
+  async analyzeKeywordGap(
+    ownDomain: string,
+    competitorDomains: string[],
+    businessType: string,
+    options: { market?: Market, gap?: KeywordGapOptions, clustering?: ClusterOptions, excludeKeywords?: string[] } = {}
+  ): Promise<KeywordGapAnalysis> {
+    const market = options.market || DEFAULT_MARKET;
+    const minCompetitors = options.gap?.minCompetitors || 2;
+    const limit = options.gap?.keywordsPerDomain || 500;
+
+    const [ownResponse, ...competitorResponses] = await this.costs.runStep('keyword_gap', () => Promise.all([
+      this.providers.keywordData.getRankedKeywords(ownDomain, market, Math.max(limit, OWN_RANKED_KEYWORDS_LIMIT)),
+      ...competitorDomains.map(domain => this.providers.keywordData.getRankedKeywords(domain, market, limit).catch(error => {
+        this.progress.throwIfCancelled();
+        this.recordFailure('keyword_gap', domain, error);
+        return null;
+      }))
+    ]));
+
+    const failedCompetitors = competitorDomains.filter((_, index) => competitorResponses[index] === null);
+    if (failedCompetitors.length === competitorDomains.length) {
+      throw new Error(`Ranked keywords could not be fetched for any competitor (${failedCompetitors.join(', ')}).`);
+    }
+
+    const ownKeywords = new Set(this.parseRankedKeywords(ownResponse).map(item => item.keyword.toLowerCase()));
+    const excluded = new Set((options.excludeKeywords || []).map(kw => kw.toLowerCase()));
+    const candidates = new Map<string, { item: any, rankings: CompetitorRanking[] }>();
+    const competitors = competitorDomains.flatMap((domain, index) => {
+      const response = competitorResponses[index];
+      if (response === null) return [];
+      const ranked = this.parseRankedKeywords(response);
+      ranked.forEach(item => {
+        const key = item.keyword.toLowerCase();
+        if (ownKeywords.has(key) || excluded.has(key)) return;
+
+        const entry = candidates.get(key) || { item, rankings: [] };
+        if (!entry.rankings.some(r => r.domain === domain)) {
+          entry.rankings.push({ domain, position: item.position, url: item.url });
+        }
+        candidates.set(key, entry);
+      });
+      return [{ domain, ranked_keywords: ranked.length }];
+    });
+
+    const gapKeywords = [...candidates.values()]
+      .filter(entry => entry.rankings.length >= minCompetitors)
+      .map(entry => {
+        const keywordData = this.buildKeywordData(entry.item, businessType, 'gap');
+        if (entry.item.keyword_difficulty) {
+          keywordData.keyword_difficulty = entry.item.keyword_difficulty;
         }
+        keywordData.competitor_rankings = entry.rankings.sort((a, b) => a.position - b.position);
+        // The competitors' ranking URLs stand in for the SERP so that competitor_domains and SERP-overlap clustering work
+        keywordData.serp_urls = keywordData.competitor_rankings.map(r => ({
+          url: r.url,
+          title: '',
+          domain: r.domain,
+          position: r.position
+        }));
+        return keywordData;
+      });
+
+    return {
+      own_domain: ownDomain,
+      competitors,
+      own_ranked_keywords: ownKeywords.size,
+      failed_competitors: failedCompetitors,
+      min_competitors: minCompetitors,
+      total_gap_keywords: gapKeywords.length,
+      clusters: this.createClusters(gapKeywords, options.clustering)
+    };
+  }
+
+  // Step 5: Research competitors using AI. Clusters whose research failed are listed in failed (by main keyword)
+  // so that a resumed job runs the step again.
+  async researchCompetitors(clusters: KeywordCluster[], businessType: string): Promise<{ clusters: KeywordCluster[], failed: string[] }> {
+    const topClusters = clusters.slice(0, 8);
+    const failed: string[] = [];
+    let done = 0;
+    
+    // Clusters are researched in parallel; the LLM client's concurrency and rate limits pace the requests
+    await Promise.all(topClusters.map(async cluster => {
+      try {
+        const topKeywords = cluster.keywords.slice(0, 5).map(kw => kw.keyword);
+        const prompt = `Research the competitive landscape for these ${businessType} keywords: ${topKeywords.join(', ')}
+
+Find the top 8-10 companies/websites that currently dominate these search terms. Focus on:
+1. Direct competitors (same business type)
+2. Industry leaders and established players
+3. Popular platforms in this space
+4. Companies that frequently appear in search results
+
+Return ONLY the domain names (like example.com) as a JSON array, no explanations or descriptions. Focus on legitimate business domains, not directories or generic sites.`;
+
+        // Failed completions throw; the catch below leaves the cluster without AI competitors
+        const content = await this.costs.withinBudget('competitor_research', this.llmCallUsd(300), () => this.providers.llm.complete({
+          system: `You are a competitive intelligence researcher specializing in ${businessType} markets.`,
+          prompt: prompt,
+          maxTokens: 300,
+          temperature: 0.1
+        }));
+        if (content === null) return;
         
-        await new Promise(resolve => setTimeout(resolve, 500));
+        const competitors = this.extractJsonFromAiResponse(content);
         
+        if (Array.isArray(competitors) && competitors.length > 0) {
+          // Clean and filter the competitors
+          const cleanCompetitors = competitors
+            .map(domain => {
+              // Clean domain format
+              return domain.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0].toLowerCase();
+            })
+            .filter(domain => {
+              // Filter out invalid domains
+              return domain && 
+                     domain.includes('.') && 
+                     !domain.includes(' ') &&
+                     domain.length > 3 &&
+                     domain.length < 50;
+            })
+            .slice(0, 8);
+          
+          cluster.ai_competitors = cleanCompetitors;
+          // Debug: Found AI competitors for cluster
+        } else {
+          // Debug: Failed to parse AI competitor response
+          cluster.ai_competitors = [];
+        }
       } catch (error) {
+        this.progress.throwIfCancelled();
+        this.recordFailure('competitor_research', cluster.main_keyword, error);
         cluster.ai_competitors = [];
+        failed.push(cluster.main_keyword);
+      } finally {
+        this.progress.advance(++done, topClusters.length, `competitors for "${cluster.main_keyword}"`);
       }
-    }
+    }));
     
-    return clusters;
+    return { clusters, failed };
+  }
+
+  // Content brief for one cluster: scrape its top-ranking pages (other than the site's own), then have the LLM
+  // turn their outlines, the cluster keywords and the People Also Ask questions into a brief
+  async generateContentBrief(cluster: KeywordCluster, businessType: string, ownDomain: string, maxPages: number = 5): Promise<ContentBrief> {
+    const seen = new Set<string>();
+    const serpUrls = cluster.keywords
+      .flatMap(kw => kw.serp_urls)
+      .filter(serpUrl => !this.belongsToDomain(serpUrl.domain, ownDomain))
+      .sort((a, b) => a.position - b.position)
+      .filter(serpUrl => {
+        if (seen.has(serpUrl.url)) return false;
+        seen.add(serpUrl.url);
+        return true;
+      })
+      .slice(0, maxPages);
+
+    let done = 0;
+    const pages = (await Promise.all(serpUrls.map(async serpUrl => {
+      try {
+        const page = await this.costs.withinBudget('scrape', this.scrapeCallUsd(), () => this.scrapeWebsite(serpUrl.url));
+        return page ? [extractPageOutline(page, serpUrl)] : [];
+      } catch (error) {
+        this.progress.throwIfCancelled();
+        this.recordFailure('scrape', serpUrl.url, error);
+        return [];
+      } finally {
+        this.progress.advance(++done, serpUrls.length, serpUrl.domain);
+      }
+    }))).flat();
+
+    const questions = clusterQuestions(cluster);
+    const completion = await this.costs.requireBudget('content_brief', this.llmCallUsd(1500), () => this.providers.llm.complete({
+      system: `You are an expert SEO content strategist writing briefs for ${businessType} websites.`,
+      prompt: buildBriefPrompt(cluster, businessType, pages, questions),
+      maxTokens: 1500,
+      temperature: 0.3
+    }));
+
+    return buildContentBrief(cluster, pages, questions, completion);
+  }
+
+  // Write a brief as Markdown and JSON to reports/briefs/, named after the report it came from
+  saveContentBrief(brief: ContentBrief, reportPath: string): { markdownPath: string, jsonPath: string } {
+    const briefsDir = path.join(getReportsDir(), 'briefs');
+    fs.mkdirSync(briefsDir, { recursive: true });
+
+    const baseFilename = `${path.basename(reportPath, '.json')}_cluster-${brief.cluster_id}_brief`;
+    const markdownPath = path.join(briefsDir, `${baseFilename}.md`);
+    const jsonPath = path.join(briefsDir, `${baseFilename}.json`);
+    fs.writeFileSync(markdownPath, briefToMarkdown(brief), 'utf8');
+    fs.writeFileSync(jsonPath, JSON.stringify(brief, null, 2), 'utf8');
+    return { markdownPath, jsonPath };
   }
 
   // Generate comprehensive text report matching HTML structure
   generateTextReport(report: AnalysisReport): string {
     const analysisDate = new Date(report.analysis_summary.analysis_date).toLocaleString();
+    const money = (amount: number) => formatCurrency(amount, report.analysis_summary.currency);
+    const scenarios = report.analysis_summary.traffic_scenarios;
+    const thresholds = report.analysis_summary.opportunity_thresholds;
+    const scoringSummary = thresholds
+      ? `\nScoring Profile:            ${report.analysis_summary.scoring_profile} (quick wins: ${quickWinRule(thresholds)}, high value: commercial score ${thresholdComparison(thresholds, '>')} ${Math.round(thresholds.high_value_min_commercial_score).toLocaleString()}${thresholds.mode === 'percentile' ? ', percentiles of this run' : ''})`
+      : '';
+    const cost = report.cost_breakdown;
+    const costSummary = cost
+      ? `API cost: $${cost.total_usd.toFixed(2)} over ${cost.calls} uncached calls (${Object.entries(cost.by_step).map(([step, line]) => `${step} $${line.cost_usd.toFixed(2)}`).join(', ') || 'all cached'})` +
+        (cost.budget_exceeded ? `\nBudget of $${cost.budget_usd!.toFixed(2)} reached; skipped: ${cost.skipped_steps.join(', ')}` : '')
+      : 'API cost: not recorded';
+    const failures = report.failures || [];
+    const failureSummary = failures.length > 0
+      ? `\nFailed calls (${failures.length}, after retries): ${failures.map(failure => `${failure.step} ${failure.item}`).join('; ')}`
+      : '';
+    const filtered = report.filtered;
+    const filterSummary = filtered && (filtered.total > 0 || filtered.brand_keywords.own + filtered.brand_keywords.competitor > 0)
+      ? `\nKeywords filtered: ${filtered.total} (${Object.entries(filtered.by_reason).map(([reason, count]) => `${reason} ${count}`).join(', ') || 'none'}); ` +
+        `brand keywords kept: ${filtered.brand_keywords.own} own, ${filtered.brand_keywords.competitor} competitor`
+      : '';
     
     return `
 ═══════════════════════════════════════════════════════════════════════════════
@@ -789,11 +1494,17 @@ Return ONLY the domain names (like example.com) as a JSON array, no explanations
 Website:                    ${report.analysis_summary.source_website}
 Business Type:              ${report.analysis_summary.business_type}
 Analysis Date:              ${analysisDate}
+Market:                     ${report.analysis_summary.location} (${report.analysis_summary.language}, ${report.analysis_summary.currency})
+Seed Keywords:              ${report.analysis_summary.user_seed_count} user-supplied + ${report.analysis_summary.ai_seed_count} AI-generated (mode: ${report.analysis_summary.seed_mode})
+Pages Analyzed:             ${report.analysis_summary.pages_analyzed} (crawl: ${report.analysis_summary.crawl_mode})
+Keyword Expansion:          ${(report.analysis_summary.expansion_strategies || ['related']).join(', ')}
 Total Keywords Analyzed:    ${report.analysis_summary.total_keywords_analyzed.toLocaleString()}
 Clusters Identified:        ${report.analysis_summary.clusters_identified}
 Monthly Search Volume:      ${report.analysis_summary.total_monthly_search_volume.toLocaleString()}
-Estimated Traffic Potential: ${report.analysis_summary.estimated_monthly_traffic_potential.toLocaleString()} visits/month
-Average CPC:                $${report.analysis_summary.avg_cpc.toFixed(2)}
+Estimated Traffic Potential: ${report.analysis_summary.estimated_monthly_traffic_potential.toLocaleString()} visits/month${scenarios ? ` (conservative ${scenarios.conservative.clicks.toLocaleString()}, optimistic ${scenarios.optimistic.clicks.toLocaleString()})
+Projected Traffic Value:    ${money(scenarios.expected.value)}/month (conservative ${money(scenarios.conservative.value)}, optimistic ${money(scenarios.optimistic.value)})` : ''}
+Average CPC:                ${money(report.analysis_summary.avg_cpc)}
+Own Rankings:               ${report.analysis_summary.ranking_clusters} clusters in top 3, ${report.analysis_summary.striking_distance_clusters} in striking distance (4-20)${scoringSummary}
 
 🚀 QUICK WINS (Low Competition Opportunities)
 ═══════════════════════════════════════════════════════════════════════════════
@@ -801,8 +1512,9 @@ ${report.quick_wins.length > 0 ?
   report.quick_wins.map((cluster, i) => 
     `${(i + 1).toString().padStart(2, '0')}. ${cluster.main_keyword}
     📊 ${cluster.total_search_volume.toLocaleString().padStart(10)} searches/month
-    💰 $${cluster.avg_cpc.toFixed(2).padStart(5)} CPC
-    🎯 ${Math.round(cluster.avg_difficulty).toString().padStart(2)}/100 difficulty
+    💰 ${money(cluster.avg_cpc).padStart(6)} CPC
+    🎯 ${Math.round(cluster.avg_difficulty).toString().padStart(2)}/100 difficulty${cluster.ranking_status === 'striking_distance' ? `
+    📍 Already ranking #${cluster.best_own_position} (striking distance)` : ''}
     ${cluster.theme}
     ────────────────────────────────────────────────────────────────────────────`
   ).join('\n') : 
@@ -815,7 +1527,7 @@ ${report.high_value.length > 0 ?
   report.high_value.map((cluster, i) => 
     `${(i + 1).toString().padStart(2, '0')}. ${cluster.main_keyword}
     📊 ${cluster.total_search_volume.toLocaleString().padStart(10)} searches/month
-    💰 $${cluster.avg_cpc.toFixed(2).padStart(5)} CPC
+    💰 ${money(cluster.avg_cpc).padStart(6)} CPC
     💎 ${cluster.total_commercial_score.toLocaleString().padStart(8)} commercial score
     ${cluster.theme}
     ────────────────────────────────────────────────────────────────────────────`
@@ -826,23 +1538,32 @@ ${report.high_value.length > 0 ?
 📊 TOP KEYWORD CLUSTERS (Detailed Analysis)
 ═══════════════════════════════════════════════════════════════════════════════
 ${report.clusters.slice(0, 10).map((cluster, index) => {
+  const serp = summarizeSerpFeatures(cluster.keywords);
+  const serpFeatures = Object.entries(serp.feature_counts).sort((a, b) => b[1] - a[1]).map(([type, count]) => `${type} (${count})`);
   const clusterText = `
 ┌─ CLUSTER ${(index + 1).toString().padStart(2, '0')}: ${cluster.main_keyword.toUpperCase()}
 ├─ Theme: ${cluster.theme}
 ├─ Monthly Search Volume: ${cluster.total_search_volume.toLocaleString()}
-├─ Average CPC: $${cluster.avg_cpc.toFixed(2)}
+├─ Average CPC: ${money(cluster.avg_cpc)}
 ├─ Difficulty Score: ${Math.round(cluster.avg_difficulty)}/100
-├─ Commercial Score: ${cluster.total_commercial_score.toLocaleString()}
+├─ Own Ranking: ${cluster.best_own_position !== null ? `#${cluster.best_own_position} (${cluster.ranking_status.replace('_', ' ')}, ${cluster.ranking_keyword_count} keywords)` : 'not ranking'}
+├─ Commercial Score: ${cluster.total_commercial_score.toLocaleString()}${cluster.projected_clicks !== undefined ? `
+├─ Projected Traffic: ${cluster.projected_clicks.toLocaleString()} clicks/month (${money(cluster.projected_value ?? 0)} value)` : ''}
 ├─ Keywords in Cluster: ${cluster.keywords.length}
+├─ SERP Features: ${serpFeatures.length > 0 ? serpFeatures.join(', ') : 'none collected'}${serp.avg_expected_ctr !== null ? `
+├─ Expected #1 CTR: ${(serp.avg_expected_ctr * 100).toFixed(1)}%` : ''}${serp.snippet_owners.length > 0 ? `
+├─ Featured Snippet Owners: ${serp.snippet_owners.join(', ')}` : ''}${serp.people_also_ask.length > 0 ? `
+├─ PEOPLE ALSO ASK:
+${serp.people_also_ask.slice(0, 5).map(question => `│  ? ${question}`).join('\n')}` : ''}
 │
 ├─ TOP KEYWORDS:
 ${cluster.keywords.slice(0, 5).map(kw => 
-  `│  • ${kw.keyword.padEnd(35)} │ ${kw.search_volume.toLocaleString().padStart(8)} searches │ $${kw.cpc.toFixed(2).padStart(5)} CPC`
+  `│  • ${kw.keyword.padEnd(35)} │ ${kw.search_volume.toLocaleString().padStart(8)} searches │ ${money(kw.cpc).padStart(6)} CPC`
 ).join('\n')}
 │
 ${cluster.keywords.length > 5 ? `├─ COMPLETE KEYWORD LIST (${cluster.keywords.length} keywords):
 ${cluster.keywords.map((kw, i) => 
-  `│  ${(i + 1).toString().padStart(2, '0')}. ${kw.keyword.padEnd(40)} │ Vol: ${kw.search_volume.toLocaleString().padStart(8)} │ CPC: $${kw.cpc.toFixed(2).padStart(5)} │ Diff: ${Math.round(kw.keyword_difficulty).toString().padStart(2)}/100`
+  `│  ${(i + 1).toString().padStart(2, '0')}. ${kw.keyword.padEnd(40)} │ Vol: ${kw.search_volume.toLocaleString().padStart(8)} │ CPC: ${money(kw.cpc).padStart(6)} │ Diff: ${Math.round(kw.keyword_difficulty).toString().padStart(2)}/100`
 ).join('\n')}
 │` : ''}
 ${cluster.competitor_domains.length > 0 ? `├─ TOP COMPETITORS:
@@ -855,6 +1576,18 @@ ${cluster.ai_competitors.slice(0, 5).map(domain => `│  • ${domain}`).join('\
   return clusterText;
 }).join('\n\n')}
 
+❓ PEOPLE ALSO ASK (Content Ideas)
+═══════════════════════════════════════════════════════════════════════════════
+${report.clusters.some(c => summarizeSerpFeatures(c.keywords).people_also_ask.length > 0) ?
+  report.clusters
+    .map(cluster => ({ cluster, questions: summarizeSerpFeatures(cluster.keywords).people_also_ask }))
+    .filter(entry => entry.questions.length > 0)
+    .map(entry => `• ${entry.cluster.main_keyword}
+${entry.questions.map(question => `    ? ${question}`).join('\n')}`)
+    .join('\n\n') :
+  'No People Also Ask questions found in the collected SERPs.'
+}
+
 🏆 MAIN COMPETITORS (Combined Analysis)
 ═══════════════════════════════════════════════════════════════════════════════
 ${report.competitors.length > 0 ? 
@@ -879,13 +1612,30 @@ ${report.clusters.filter(c => c.competitor_domains && c.competitor_domains.lengt
 └─────────────────────────────────────────────────────────────────────────────` : 
   'No major competitors identified in analyzed keywords.'
 }
+${report.keyword_gap ? `
+🕳️ KEYWORD GAP (Competitors Rank, You Don't)
+═══════════════════════════════════════════════════════════════════════════════
+Compared Against:           ${report.keyword_gap.competitors.map(c => c.domain).join(', ')}
+Gap Keywords:               ${report.keyword_gap.total_gap_keywords.toLocaleString()} (ranked by ${report.keyword_gap.min_competitors}+ competitors)
 
+${report.keyword_gap.clusters.length > 0 ?
+  report.keyword_gap.clusters.slice(0, 10).map((cluster, i) =>
+    `${(i + 1).toString().padStart(2, '0')}. ${cluster.main_keyword}
+    📊 ${cluster.total_search_volume.toLocaleString().padStart(10)} searches/month
+    💰 ${money(cluster.avg_cpc).padStart(6)} CPC
+    🎯 ${Math.round(cluster.avg_difficulty).toString().padStart(2)}/100 difficulty
+    🏆 ${cluster.competitor_domains.slice(0, 4).join(', ')}
+    ────────────────────────────────────────────────────────────────────────────`
+  ).join('\n') :
+  'No keywords found that two or more competitors rank for and you do not.'
+}
+` : ''}
 📝 ACTION PLAN (Strategic Recommendations)
 ═══════════════════════════════════════════════════════════════════════════════
 
 🚀 IMMEDIATE ACTIONS (1-2 weeks)
 ────────────────────────────────────────────────────────────────────────────
-✓ Target quick win keywords with low competition (difficulty < 40)
+✓ Target quick win keywords with low competition (${quickWinRule(report.analysis_summary.opportunity_thresholds)})
 ✓ Create targeted landing pages for main keyword clusters
 ✓ Analyze competitor content strategies for top domains
 ✓ Optimize existing pages for high-volume, low-competition keywords
@@ -912,14 +1662,17 @@ ${report.clusters.filter(c => c.competitor_domains && c.competitor_domains.lengt
 
 📊 ANALYSIS SUMMARY (JSON):
 ${JSON.stringify(report.analysis_summary, null, 2)}
-
+${report.pages && report.pages.length > 0 ? `
+📄 PAGES ANALYZED (${report.pages.length}):
+${report.pages.map(page => `• ${page.url}${page.title ? ` - ${page.title}` : ''} (${page.word_count.toLocaleString()} words)`).join('\n')}
+` : ''}
 🎯 COMPLETE CLUSTER ANALYSIS (${report.clusters.length} clusters):
 ${report.clusters.map((cluster, index) => `
 ┌─ CLUSTER ${index + 1} DETAILED DATA:
 ├─ Main Keyword: ${cluster.main_keyword}
 ├─ Theme: ${cluster.theme}
 ├─ Total Search Volume: ${cluster.total_search_volume.toLocaleString()}
-├─ Average CPC: $${cluster.avg_cpc.toFixed(2)}
+├─ Average CPC: ${money(cluster.avg_cpc)}
 ├─ Average Difficulty: ${Math.round(cluster.avg_difficulty)}/100
 ├─ Commercial Score: ${cluster.total_commercial_score.toLocaleString()}
 ├─ Keywords Count: ${cluster.keywords.length}
@@ -928,7 +1681,7 @@ ${report.clusters.map((cluster, index) => `
 │
 ├─ ALL KEYWORDS IN CLUSTER:
 ${cluster.keywords.map((kw, i) => 
-  `│  ${(i + 1).toString().padStart(2, '0')}. ${kw.keyword.padEnd(45)} │ Vol: ${kw.search_volume.toLocaleString().padStart(8)} │ CPC: $${kw.cpc.toFixed(2).padStart(5)} │ Comp: ${(kw.competition * 100).toFixed(0).padStart(2)}% │ Diff: ${Math.round(kw.keyword_difficulty).toString().padStart(2)}/100 │ SERP: ${kw.serp_urls.length}`
+  `│  ${(i + 1).toString().padStart(2, '0')}. ${kw.keyword.padEnd(45)} │ Vol: ${kw.search_volume.toLocaleString().padStart(8)} │ CPC: ${money(kw.cpc).padStart(6)} │ Comp: ${(kw.competition * 100).toFixed(0).padStart(2)}% │ Diff: ${Math.round(kw.keyword_difficulty).toString().padStart(2)}/100 │ Intent: ${(kw.intent?.primary || '-').padEnd(13)} │ SERP: ${kw.serp_urls.length}${kw.own_position !== null ? ` │ Own: #${kw.own_position}` : ''}`
 ).join('\n')}
 │
 ${cluster.competitor_domains.length > 0 ? `├─ COMPETITOR DOMAINS (${cluster.competitor_domains.length}):
@@ -945,7 +1698,7 @@ ${cluster.ai_competitors.map(domain => `│  • ${domain}`).join('\n')}
 ═══════════════════════════════════════════════════════════════════════════════
 Analysis completed: ${analysisDate}
 Report contains: ${report.analysis_summary.total_keywords_analyzed.toLocaleString()} keywords across ${report.analysis_summary.clusters_identified} clusters
-Estimated analysis cost: ~$0.53-1.03 (Firecrawl + Perplexity + DataForSEO)
+${costSummary}${failureSummary}${filterSummary}
 Next steps: Review action plan and begin implementation with quick wins
 
 For detailed technical data and further analysis, refer to the JSON report file.
@@ -953,11 +1706,31 @@ For detailed technical data and further analysis, refer to the JSON report file.
 `.trim();
   }
 
+  // Striking-distance clusters first (closest to page one first), then low-difficulty clusters we don't rank for.
+  // Clusters where the site is already in the top 3 are not quick wins.
+  selectQuickWins(clusters: KeywordCluster[], thresholds: ResolvedThresholds): KeywordCluster[] {
+    const strikingDistance = clusters
+      .filter(c => c.ranking_status === 'striking_distance')
+      .sort((a, b) => (a.best_own_position ?? 100) - (b.best_own_position ?? 100));
+    const lowDifficulty = clusters.filter(c => c.ranking_status === 'not_ranking' && isLowDifficulty(c, thresholds));
+    return [...strikingDistance, ...lowDifficulty].slice(0, 8);
+  }
+
   // Generate report
-  generateReport(url: string, businessType: string, clusters: KeywordCluster[]): AnalysisReport {
+  generateReport(url: string, businessType: string, clusters: KeywordCluster[], context: ReportContext = {}): AnalysisReport {
+    const market = context.market || DEFAULT_MARKET;
+    const seeds = context.seeds || { mode: 'ai', user_seed_count: 0, ai_seed_count: 0 };
+    const pages: CrawledPage[] = (context.pages || []).map(page => ({
+      url: page.url,
+      title: page.title,
+      description: page.description,
+      word_count: (page.markdown || '').split(/\s+/).filter(Boolean).length
+    }));
     const totalSearchVolume = clusters.reduce((sum, c) => sum + c.total_search_volume, 0);
-    const avgCPC = clusters.reduce((sum, c) => sum + c.avg_cpc, 0) / clusters.length;
-    const estimatedTraffic = Math.round(totalSearchVolume * 0.3);
+    const avgCPC = clusters.length > 0 ? clusters.reduce((sum, c) => sum + c.avg_cpc, 0) / clusters.length : 0;
+    // Sets each keyword's and cluster's projection as well
+    const trafficScenarios = projectTraffic(clusters);
+    const thresholds = resolveThresholds(this.scoring.thresholds, clusters);
     
     const serpCompetitors = [...new Set(clusters.flatMap(c => c.competitor_domains))].filter(d => d && d.length > 0);
     const aiCompetitors = [...new Set(clusters.flatMap(c => c.ai_competitors || []))].filter(d => d && d.length > 0);
@@ -968,25 +1741,45 @@ For detailed technical data and further analysis, refer to the JSON report file.
         source_website: url,
         business_type: businessType,
         analysis_date: new Date().toISOString(),
+        location: market.location_name,
+        location_code: market.location_code,
+        language: market.language_name,
+        language_code: market.language_code,
+        currency: market.currency,
+        seed_mode: seeds.mode,
+        user_seed_count: seeds.user_seed_count,
+        ai_seed_count: seeds.ai_seed_count,
+        clustering_mode: context.clustering?.mode || 'word_overlap',
+        own_domain: this.extractDomain(url),
+        ranking_clusters: clusters.filter(c => c.ranking_status === 'ranking').length,
+        striking_distance_clusters: clusters.filter(c => c.ranking_status === 'striking_distance').length,
+        crawl_mode: context.crawlMode || 'homepage',
+        expansion_strategies: context.expansion || ['related'],
+        pages_analyzed: pages.length,
         total_keywords_analyzed: clusters.reduce((sum, c) => sum + c.keywords.length, 0),
         clusters_identified: clusters.length,
         total_monthly_search_volume: totalSearchVolume,
-        estimated_monthly_traffic_potential: estimatedTraffic,
-        avg_cpc: avgCPC
+        estimated_monthly_traffic_potential: trafficScenarios.expected.clicks,
+        avg_cpc: avgCPC,
+        traffic_scenarios: trafficScenarios,
+        scoring_profile: this.scoring.name,
+        opportunity_thresholds: thresholds
       },
       clusters: clusters,
-      quick_wins: clusters.filter(c => !isNaN(c.avg_difficulty) && c.avg_difficulty > 0 && c.avg_difficulty < 40).slice(0, 8),
-      high_value: clusters.filter(c => !isNaN(c.total_commercial_score) && c.total_commercial_score > 1000).slice(0, 8),
-      competitors: allCompetitors.slice(0, 15)
+      quick_wins: this.selectQuickWins(clusters, thresholds),
+      high_value: clusters.filter(c => isHighValue(c, thresholds)).slice(0, 8),
+      competitors: allCompetitors.slice(0, 15),
+      pages: pages,
+      ...(context.keywordGap ? { keyword_gap: context.keywordGap } : {})
     };
   }
 
-  async saveReportToFile(report: AnalysisReport, websiteUrl: string, businessType: string): Promise<{ jsonFilePath: string | null, textFilePath: string | null, textReport: string, saveError?: string }> {
+  async saveReportToFile(report: AnalysisReport, websiteUrl: string, businessType: string, exportFormats: ExportFormat[] = []): Promise<{ jsonFilePath: string | null, textFilePath: string | null, textReport: string, exports: ExportedFiles, saveError?: string }> {
     const textReport = this.generateTextReport(report);
     
     try {
       // Create reports directory if it doesn't exist
-      const reportsDir = path.join(process.cwd(), 'reports');
+      const reportsDir = getReportsDir();
       
       if (!fs.existsSync(reportsDir)) {
         fs.mkdirSync(reportsDir, { recursive: true });
@@ -1003,13 +1796,14 @@ For detailed technical data and further analysis, refer to the JSON report file.
       const baseFilename = `${cleanDomain}_${dateStr}_${timeStr}`;
       
       // Add metadata to the report
-      const reportWithMetadata = {
+      const reportWithMetadata: SavedReport = {
         metadata: {
           generated_at: now.toISOString(),
           website_url: websiteUrl,
           business_type: businessType,
           domain: domain,
-          tool_version: '1.0.0'
+          tool_version: '1.0.0',
+          scoring_profile: this.scoring
         },
         ...report
       };
@@ -1022,26 +1816,75 @@ For detailed technical data and further analysis, refer to the JSON report file.
       const textFilePath = path.join(reportsDir, `${baseFilename}_formatted.txt`);
       fs.writeFileSync(textFilePath, textReport, 'utf8');
 
-      return { jsonFilePath, textFilePath, textReport };
+      // Optional spreadsheet and HTML exports
+      const exports: ExportedFiles = {};
+      if (exportFormats.includes('csv')) {
+        exports.keywords_csv_path = path.join(reportsDir, `${baseFilename}_keywords.csv`);
+        fs.writeFileSync(exports.keywords_csv_path, keywordsToCsv(report), 'utf8');
+        exports.clusters_csv_path = path.join(reportsDir, `${baseFilename}_clusters.csv`);
+        fs.writeFileSync(exports.clusters_csv_path, clustersToCsv(report), 'utf8');
+      }
+      if (exportFormats.includes('html')) {
+        exports.html_report_path = path.join(reportsDir, `${baseFilename}.html`);
+        fs.writeFileSync(exports.html_report_path, reportToHtml(report), 'utf8');
+      }
+
+      return { jsonFilePath, textFilePath, textReport, exports };
     } catch (error) {
       // Failed to save files - continue without saving
       return { 
         jsonFilePath: null, 
         textFilePath: null, 
         textReport,
+        exports: {},
         saveError: error instanceof Error ? error.message : String(error)
       };
     }
   }
 
+  // Trim and de-duplicate (case-insensitively) a seed list, keeping first occurrences
+  normalizeSeedKeywords(keywords: string[]): string[] {
+    const seen = new Set<string>();
+    return keywords
+      .map(kw => (typeof kw === 'string' ? kw.trim() : ''))
+      .filter(kw => {
+        const key = kw.toLowerCase();
+        if (kw.length === 0 || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  // Reuse the checkpointed output of a step, or run it and checkpoint the result unless the budget cut it short,
+  // isComplete reports that part of it failed, or one of the steps it was built from is incomplete (so that a
+  // resumed job retries it and rebuilds everything downstream from the retried output)
+  async runCheckpointed<T>(
+    checkpoints: Checkpoints | undefined,
+    step: CheckpointStep,
+    run: () => Promise<T>,
+    isComplete: (result: T) => boolean = () => true,
+    inputsComplete = true
+  ): Promise<CheckpointedStep<T>> {
+    const saved = checkpoints?.load<T>(step);
+    if (saved !== undefined) {
+      return { result: saved, complete: true };
+    }
+    // Only a step that had a call skipped for budget is left to run again; other steps of the run are still saved
+    const { result, skipped } = await this.costs.trackSkips(run);
+    const complete = inputsComplete && !skipped && isComplete(result);
+    if (checkpoints && complete) {
+      checkpoints.save(step, result);
+    }
+    return { result, complete };
+  }
+
   async performAnalysis(
     websiteUrl: string,
     businessType: string,
-    firecrawlKey: string,
-    perplexityKey: string,
-    dataforSeoUsername: string,
-    dataforSeoPassword: string
+    options: AnalysisOptions = {}
   ): Promise<AnalysisReport> {
+    const market = options.market || DEFAULT_MARKET;
+
     let cleanUrl = websiteUrl;
     if (!cleanUrl.startsWith('http')) {
       cleanUrl = 'https://' + cleanUrl;
@@ -1053,29 +1896,157 @@ For detailed technical data and further analysis, refer to the JSON report file.
       throw new Error('Please enter a valid website URL.');
     }
 
-    // Step 1: Scrape website
-    const websiteData = await this.scrapeWebsite(cleanUrl, firecrawlKey);
-    
-    // Step 2: Generate keywords
-    const seedKeywords = await this.generateKeywords(cleanUrl, websiteData, businessType, perplexityKey);
+    const userSeeds = this.normalizeSeedKeywords(options.seedKeywords || []);
+    const seedMode: SeedMode = userSeeds.length > 0 ? (options.seedMode || 'merge') : 'ai';
+
+    if (options.seedMode === 'replace' && userSeeds.length === 0) {
+      throw new Error('seed_mode "replace" requires at least one keyword in seed_keywords.');
+    }
+
+    const checkpoints = options.checkpoints;
+    const filter = new KeywordFilter(options.filters);
+    const researchCompetitors = this.providers.llm.missingConfig().length === 0;
+    this.progress.setTotalSteps((seedMode !== 'replace' ? 2 : 0) + 3 + (researchCompetitors ? 1 : 0) + (options.keywordGap ? 1 : 0));
+
+    let aiSeeds: string[] = [];
+    let pages: ScrapedPage[] = [];
+    let seedsComplete = true;
+    if (seedMode !== 'replace') {
+      try {
+        // Step 1: Scrape website (homepage, plus discovered pages in crawl modes)
+        this.progress.startStep('Scraping website');
+        const scrape = await this.runCheckpointed(checkpoints, 'scrape', () => this.crawlWebsite(cleanUrl, options.crawl));
+        pages = scrape.result;
+        this.progress.finishStep();
+        
+        // Step 2: Generate keywords
+        this.progress.startStep('Generating seed keywords');
+        const seeds = await this.runCheckpointed(checkpoints, 'seeds', () => this.generateKeywords(cleanUrl, pages[0], businessType, pages.slice(1), filter), undefined, scrape.complete);
+        aiSeeds = seeds.result;
+        seedsComplete = seeds.complete;
+        this.progress.finishStep();
+      } catch (error) {
+        // Out of budget: carry on with the user seeds (if any) so that partial results are returned
+        if (!(error instanceof BudgetExceededError)) throw error;
+        seedsComplete = false;
+      }
+    }
+
+    // User seeds go first so they are always within the related-keyword and SERP limits
+    const seedKeywords = this.normalizeSeedKeywords([...userSeeds, ...aiSeeds]);
+    const userSeedSet = new Set(userSeeds.map(kw => kw.toLowerCase()));
+    const aiSeedCount = seedKeywords.filter(kw => !userSeedSet.has(kw.toLowerCase())).length;
     
-    // Step 3: Get keyword data (parallel API calls)
-    const [keywordMetrics, relatedKeywords, serpData] = await Promise.all([
-      this.getKeywordMetrics(seedKeywords, dataforSeoUsername, dataforSeoPassword),
-      this.getRelatedKeywords(seedKeywords, dataforSeoUsername, dataforSeoPassword),
-      this.getSerpData(seedKeywords, dataforSeoUsername, dataforSeoPassword)
-    ]);
+    // Step 3: Get keyword data (parallel API calls, each skipped if it would exceed the budget)
+    this.progress.startStep('Fetching keyword data and SERPs');
+    const noData = { tasks: [] };
+    const dataPrices = keywordDataPrices(this.providers.keywordData.priority);
+    const strategies = options.expansion?.strategies || ['related'];
+    const noExpansion = { keywords: [] as ExpandedKeyword[], failed: [] as string[] };
+    const skippedStep = <T>(result: T): CheckpointedStep<T> => ({ result, complete: seedsComplete });
+    const [metricsStep, relatedStep, expansionStep, serpStep] = seedKeywords.length === 0
+      ? [skippedStep(noData), skippedStep(noData), skippedStep(noExpansion), skippedStep(noData)]
+      : await Promise.all([
+          this.runCheckpointed(checkpoints, 'metrics', () =>
+            this.costs.withinBudget('keyword_data', dataPrices.keywordMetrics, () => this.getKeywordMetrics(seedKeywords, market)).then(data => data || noData),
+            undefined, seedsComplete
+          ),
+          strategies.includes('related')
+            ? this.runCheckpointed(checkpoints, 'related', () =>
+                this.costs.withinBudget('keyword_data', dataPrices.relatedKeywords, () => this.getRelatedKeywords(seedKeywords, market)).then(data => data || noData),
+                undefined, seedsComplete
+              )
+            : skippedStep(noData),
+          strategies.some(strategy => strategy !== 'related')
+            ? this.runCheckpointed(checkpoints, 'expansion', () => this.expandKeywords(seedKeywords, market, options.expansion), data => data.failed.length === 0, seedsComplete)
+            : skippedStep(noExpansion),
+          // Top 20 so that striking-distance rankings (positions 4-20) of the analyzed site are visible
+          this.runCheckpointed(checkpoints, 'serp', () => this.getSerpData(seedKeywords, market, OWN_RANKING_SERP_DEPTH), data => data.failed_keywords.length === 0, seedsComplete)
+        ]);
+    const [keywordMetrics, relatedKeywords, expansion, serpData] = [metricsStep.result, relatedStep.result, expansionStep.result, serpStep.result];
+    const dataComplete = [metricsStep, relatedStep, expansionStep, serpStep].every(step => step.complete);
+    this.progress.finishStep();
     
     // Step 4: Analyze and cluster
-    const clusters = await this.analyzeAndCluster(keywordMetrics, relatedKeywords, serpData, businessType);
+    this.progress.startStep('Clustering keywords');
+    const ownDomain = this.extractDomain(cleanUrl);
+    const clusterStep = await this.runCheckpointed(checkpoints, 'clusters', () =>
+      this.analyzeAndCluster(keywordMetrics, relatedKeywords, serpData, businessType, userSeeds, options.clustering, ownDomain, expansion.keywords, filter),
+      undefined, dataComplete
+    );
+    const clusters = clusterStep.result;
+    this.progress.finishStep();
+    
+    // Step 5: Research competitors using AI (skipped when no LLM provider is configured)
+    let enhancedClusters = clusters;
+    let clustersComplete = clusterStep.complete;
+    if (researchCompetitors) {
+      this.progress.startStep('Researching competitors');
+      const research = await this.runCheckpointed(checkpoints, 'competitors', () => this.researchCompetitors(clusters, businessType), result => result.failed.length === 0, clustersComplete);
+      enhancedClusters = research.result.clusters;
+      clustersComplete = research.complete;
+      this.progress.finishStep();
+    }
     
-    // Step 5: Research competitors using AI
-    const enhancedClusters = await this.researchCompetitors(clusters, businessType, perplexityKey);
+    // Step 5b: Competitor keyword gap (optional; a failure here does not fail the analysis)
+    let keywordGap: KeywordGapAnalysis | undefined;
+    let gapComplete = true;
+    if (options.keywordGap) {
+      this.progress.startStep('Analyzing keyword gap');
+      const competitorDomains = this.topCompetitorDomains(enhancedClusters, ownDomain, options.keywordGap.competitors || 5);
+      const gapCostUsd = estimateRankedKeywordsUsd(OWN_RANKED_KEYWORDS_LIMIT) +
+        competitorDomains.length * estimateRankedKeywordsUsd(options.keywordGap.keywordsPerDomain || 500);
+      // Keywords the report already covers are not gaps, whether or not the site ranks for them yet
+      const coveredKeywords = [...seedKeywords, ...enhancedClusters.flatMap(cluster => cluster.keywords.map(kw => kw.keyword))];
+      try {
+        // A gap step that found no competitors is checkpointed as null; one with failed competitor lookups is run again on resume
+        const gap = await this.runCheckpointed(checkpoints, 'keyword_gap', async () => competitorDomains.length > 0
+          ? await this.costs.withinBudget('keyword_gap', gapCostUsd, () =>
+              this.analyzeKeywordGap(ownDomain, competitorDomains, businessType, {
+                market,
+                gap: options.keywordGap,
+                clustering: options.clustering,
+                excludeKeywords: coveredKeywords
+              })
+            )
+          : null,
+          gap => !gap?.failed_competitors?.length,
+          clustersComplete
+        );
+        keywordGap = gap.result || undefined;
+        gapComplete = gap.complete;
+      } catch (error) {
+        this.progress.throwIfCancelled();
+        this.recordFailure('keyword_gap', ownDomain, error);
+        gapComplete = false;
+      }
+      this.progress.finishStep();
+    }
     
-    // Step 6: Generate report
-    const report = this.generateReport(cleanUrl, businessType, enhancedClusters);
+    // Step 6: Generate report (only checkpointed when every step it was built from is final)
+    this.progress.startStep('Generating report');
+    const report = await this.runCheckpointed(checkpoints, 'report', async () => {
+      const generated = this.generateReport(cleanUrl, businessType, enhancedClusters, {
+        market,
+        seeds: {
+          mode: seedMode,
+          user_seed_count: userSeeds.length,
+          ai_seed_count: aiSeedCount
+        },
+        clustering: options.clustering,
+        crawlMode: seedMode === 'replace' ? 'homepage' : (options.crawl?.mode || 'homepage'),
+        expansion: strategies,
+        pages,
+        keywordGap
+      });
+      generated.cost_breakdown = this.costs.getBreakdown();
+      generated.failures = this.getFailures();
+      generated.filtered = filter.getSummary(enhancedClusters.flatMap(cluster => cluster.keywords));
+      return generated;
+    }, undefined, clustersComplete && gapComplete);
+    this.progress.finishStep();
     
-    return report;
+    return report.result;
   }
 }
 
@@ -1087,11 +2058,624 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {},
     },
   }
 );
 
-const keywordTool = new KeywordResearchTool();
+// Validate the optional cache argument shared by the tools
+function parseCacheMode(value: unknown): CacheMode {
+  if (value === undefined || value === null) return 'use';
+  if (typeof value !== 'string' || !CACHE_MODES.includes(value as CacheMode)) {
+    throw new Error(`cache must be one of: ${CACHE_MODES.join(', ')}.`);
+  }
+  return value as CacheMode;
+}
+
+function parseDataPriority(value: unknown): DataPriority {
+  if (value === undefined || value === null) return 'live';
+  if (value !== 'live' && value !== 'standard') {
+    throw new Error('priority must be either "live" or "standard".');
+  }
+  return value;
+}
+
+// The named scoring profile, or the configured default when none is given
+function parseScoringProfile(name: unknown, thresholdMode?: unknown): ScoringProfile {
+  if (name !== undefined && name !== null && (typeof name !== 'string' || !name.trim())) {
+    throw new Error('scoring_profile must be the name of a scoring profile.');
+  }
+  if (thresholdMode !== undefined && thresholdMode !== null && !THRESHOLD_MODES.includes(thresholdMode as ThresholdMode)) {
+    throw new Error(`threshold_mode must be one of: ${THRESHOLD_MODES.join(', ')}.`);
+  }
+  return resolveScoringProfile((name as string | undefined)?.trim() || undefined, (thresholdMode as ThresholdMode | undefined) ?? undefined);
+}
+
+function parseExportFormats(value: unknown): ExportFormat[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(format => !EXPORT_FORMATS.includes(format))) {
+    throw new Error(`export_formats must be an array containing any of: ${EXPORT_FORMATS.join(', ')}.`);
+  }
+  return Array.from(new Set(value as ExportFormat[]));
+}
+
+// Read the clustering arguments shared by the tools
+function parseClusterOptions(args: Record<string, unknown> | undefined): ClusterOptions {
+  const options: ClusterOptions = {};
+  const { cluster_mode, serp_overlap_threshold, max_cluster_size, max_clusters } = args || {};
+
+  if (cluster_mode !== undefined) {
+    if (cluster_mode !== 'word_overlap' && cluster_mode !== 'serp_overlap') {
+      throw new Error('cluster_mode must be either "word_overlap" or "serp_overlap".');
+    }
+    options.mode = cluster_mode;
+  }
+
+  const positiveInteger = (value: unknown, name: string, max: number): number | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+      throw new Error(`${name} must be an integer between 1 and ${max}.`);
+    }
+    return value;
+  };
+
+  options.minSharedUrls = positiveInteger(serp_overlap_threshold, 'serp_overlap_threshold', 10);
+  options.maxClusterSize = positiveInteger(max_cluster_size, 'max_cluster_size', 500);
+  options.maxClusters = positiveInteger(max_clusters, 'max_clusters', 500);
+
+  return options;
+}
+
+// JSON shape of a keyword gap result, shared by analyze_website and keyword_gap
+function formatKeywordGap(gap: KeywordGapAnalysis) {
+  return {
+    own_domain: gap.own_domain,
+    own_ranked_keywords: gap.own_ranked_keywords,
+    competitors: gap.competitors,
+    failed_competitors: gap.failed_competitors || [],
+    min_competitors: gap.min_competitors,
+    total_gap_keywords: gap.total_gap_keywords,
+    clusters: gap.clusters.map(cluster => ({
+      cluster_id: cluster.cluster_id,
+      main_keyword: cluster.main_keyword,
+      theme: cluster.theme,
+      total_search_volume: cluster.total_search_volume,
+      avg_cpc: Number(cluster.avg_cpc.toFixed(2)),
+      avg_difficulty: Math.round(cluster.avg_difficulty),
+      total_commercial_score: cluster.total_commercial_score,
+      keywords_count: cluster.keywords.length,
+      competitor_domains: cluster.competitor_domains,
+      keywords: cluster.keywords.map(kw => ({
+        keyword: kw.keyword,
+        search_volume: kw.search_volume,
+        cpc: Number(kw.cpc.toFixed(2)),
+        keyword_difficulty: Math.round(kw.keyword_difficulty),
+        commercial_score: kw.commercial_score,
+        competitor_rankings: kw.competitor_rankings || []
+      }))
+    }))
+  };
+}
+
+// analyze_website arguments after validation; start_analysis takes the same arguments
+interface AnalysisRequest {
+  cacheMode: CacheMode;
+  maxBudgetUsd: number | null;
+  priority: DataPriority;
+  scoring: ScoringProfile;
+  exportFormats: ExportFormat[];
+  options: AnalysisOptions;
+}
+
+function parseAnalysisRequest(args: Record<string, unknown> | undefined): AnalysisRequest {
+  const {
+    website_url,
+    business_type,
+    location,
+    language,
+    seed_keywords,
+    seed_mode,
+    cache,
+    export_formats,
+    keyword_gap,
+    gap_competitors,
+    gap_min_competitors,
+    max_budget_usd,
+    priority,
+    scoring_profile,
+    threshold_mode,
+    filters,
+  } = (args || {}) as unknown as AnalysisArgs;
+
+  // Validate all required parameters
+  if (!website_url || !business_type) {
+    throw new Error('website_url and business_type are required parameters.');
+  }
+
+  if (seed_keywords !== undefined && (!Array.isArray(seed_keywords) || seed_keywords.some(kw => typeof kw !== 'string'))) {
+    throw new Error('seed_keywords must be an array of strings.');
+  }
+
+  if (seed_mode !== undefined && seed_mode !== 'merge' && seed_mode !== 'replace') {
+    throw new Error('seed_mode must be either "merge" or "replace".');
+  }
+
+  if (max_budget_usd !== undefined && (typeof max_budget_usd !== 'number' || !(max_budget_usd > 0))) {
+    throw new Error('max_budget_usd must be a positive number.');
+  }
+
+  return {
+    cacheMode: parseCacheMode(cache),
+    maxBudgetUsd: max_budget_usd ?? null,
+    priority: parseDataPriority(priority),
+    scoring: parseScoringProfile(scoring_profile, threshold_mode),
+    exportFormats: parseExportFormats(export_formats),
+    options: {
+      market: resolveMarket(location, language),
+      seedKeywords: seed_keywords,
+      seedMode: seed_mode,
+      clustering: parseClusterOptions(args),
+      crawl: parseCrawlOptions(args),
+      expansion: parseExpansionOptions(args),
+      filters: resolveKeywordFilters(parseKeywordFilters(filters, 'filters')),
+      keywordGap: keyword_gap ? parseKeywordGapOptions(gap_competitors, gap_min_competitors) : undefined
+    }
+  };
+}
+
+// In replace mode the scrape and AI seed generation steps are skipped, so only keyword data is mandatory
+function missingAnalysisConfig(keywordTool: KeywordResearchTool, request: AnalysisRequest): string[] {
+  const replaceSeeds = request.options.seedMode === 'replace';
+  return keywordTool.missingConfig({ scraper: !replaceSeeds, llm: !replaceSeeds, keywordData: true });
+}
+
+// Write the report files (plus any requested exports) of a finished analysis
+async function saveAnalysisFiles(
+  keywordTool: KeywordResearchTool,
+  report: AnalysisReport,
+  websiteUrl: string,
+  businessType: string,
+  exportFormats: ExportFormat[]
+): Promise<ReportFiles> {
+  const { jsonFilePath, textFilePath, exports, saveError } = await keywordTool.saveReportToFile(report, websiteUrl, businessType, exportFormats);
+  return {
+    json_report_path: jsonFilePath,
+    text_report_path: textFilePath,
+    keywords_csv_path: exports.keywords_csv_path || null,
+    clusters_csv_path: exports.clusters_csv_path || null,
+    html_report_path: exports.html_report_path || null,
+    save_error: saveError || null
+  };
+}
+
+// JSON response of a completed analysis, shared by analyze_website and get_analysis_result
+function analysisResponse(report: AnalysisReport, websiteUrl: string, businessType: string, files: ReportFiles, cache: CacheStats | null) {
+  return {
+    success: true,
+    analysis_completed: true,
+    metadata: {
+      website_url: websiteUrl,
+      business_type: businessType,
+      analysis_date: report.analysis_summary.analysis_date,
+      scoring_profile: report.analysis_summary.scoring_profile || 'default',
+      tool_version: "1.0.0"
+    },
+    analysis_summary: {
+      source_website: report.analysis_summary.source_website,
+      business_type: report.analysis_summary.business_type,
+      analysis_date: report.analysis_summary.analysis_date,
+      location: report.analysis_summary.location,
+      location_code: report.analysis_summary.location_code,
+      language: report.analysis_summary.language,
+      language_code: report.analysis_summary.language_code,
+      currency: report.analysis_summary.currency,
+      seed_mode: report.analysis_summary.seed_mode,
+      user_seed_count: report.analysis_summary.user_seed_count,
+      ai_seed_count: report.analysis_summary.ai_seed_count,
+      clustering_mode: report.analysis_summary.clustering_mode,
+      crawl_mode: report.analysis_summary.crawl_mode,
+      expansion_strategies: report.analysis_summary.expansion_strategies || ['related'],
+      pages_analyzed: report.analysis_summary.pages_analyzed,
+      own_domain: report.analysis_summary.own_domain,
+      ranking_clusters: report.analysis_summary.ranking_clusters,
+      striking_distance_clusters: report.analysis_summary.striking_distance_clusters,
+      total_keywords_analyzed: report.analysis_summary.total_keywords_analyzed,
+      clusters_identified: report.analysis_summary.clusters_identified,
+      total_monthly_search_volume: report.analysis_summary.total_monthly_search_volume,
+      estimated_monthly_traffic_potential: report.analysis_summary.estimated_monthly_traffic_potential,
+      traffic_scenarios: report.analysis_summary.traffic_scenarios || null,
+      opportunity_thresholds: report.analysis_summary.opportunity_thresholds || null,
+      average_cpc: Number(report.analysis_summary.avg_cpc.toFixed(2))
+    },
+    pages_analyzed: (report.pages || []).map(page => page.url),
+    quick_wins: report.quick_wins.map(cluster => ({
+      cluster_id: cluster.cluster_id,
+      main_keyword: cluster.main_keyword,
+      theme: cluster.theme,
+      total_search_volume: cluster.total_search_volume,
+      avg_cpc: Number(cluster.avg_cpc.toFixed(2)),
+      avg_difficulty: Math.round(cluster.avg_difficulty),
+      total_commercial_score: cluster.total_commercial_score,
+      keywords_count: cluster.keywords.length,
+      ranking_status: cluster.ranking_status,
+      best_own_position: cluster.best_own_position,
+      projected_clicks: cluster.projected_clicks ?? null,
+      projected_value: cluster.projected_value ?? null,
+      top_keywords: cluster.keywords.slice(0, 5).map(kw => ({
+        keyword: kw.keyword,
+        search_volume: kw.search_volume,
+        cpc: Number(kw.cpc.toFixed(2)),
+        difficulty: Math.round(kw.keyword_difficulty)
+      })),
+      competitor_domains: cluster.competitor_domains,
+      ai_competitors: cluster.ai_competitors || []
+    })),
+    high_value_opportunities: report.high_value.map(cluster => ({
+      cluster_id: cluster.cluster_id,
+      main_keyword: cluster.main_keyword,
+      theme: cluster.theme,
+      total_search_volume: cluster.total_search_volume,
+      avg_cpc: Number(cluster.avg_cpc.toFixed(2)),
+      avg_difficulty: Math.round(cluster.avg_difficulty),
+      total_commercial_score: cluster.total_commercial_score,
+      keywords_count: cluster.keywords.length,
+      ranking_status: cluster.ranking_status,
+      best_own_position: cluster.best_own_position,
+      projected_clicks: cluster.projected_clicks ?? null,
+      projected_value: cluster.projected_value ?? null,
+      top_keywords: cluster.keywords.slice(0, 5).map(kw => ({
+        keyword: kw.keyword,
+        search_volume: kw.search_volume,
+        cpc: Number(kw.cpc.toFixed(2)),
+        commercial_score: kw.commercial_score
+      })),
+      competitor_domains: cluster.competitor_domains,
+      ai_competitors: cluster.ai_competitors || []
+    })),
+    keyword_clusters: report.clusters.map(cluster => ({
+      cluster_id: cluster.cluster_id,
+      main_keyword: cluster.main_keyword,
+      theme: cluster.theme,
+      total_search_volume: cluster.total_search_volume,
+      avg_cpc: Number(cluster.avg_cpc.toFixed(2)),
+      avg_difficulty: Math.round(cluster.avg_difficulty),
+      total_commercial_score: cluster.total_commercial_score,
+      keywords_count: cluster.keywords.length,
+      ranking_status: cluster.ranking_status,
+      best_own_position: cluster.best_own_position,
+      projected_clicks: cluster.projected_clicks ?? null,
+      projected_value: cluster.projected_value ?? null,
+      serp_features: summarizeSerpFeatures(cluster.keywords),
+      keywords: cluster.keywords.map(kw => ({
+        keyword: kw.keyword,
+        search_volume: kw.search_volume,
+        cpc: Number(kw.cpc.toFixed(2)),
+        competition: Number((kw.competition * 100).toFixed(0)),
+        competition_level: kw.competition_level,
+        keyword_difficulty: Math.round(kw.keyword_difficulty),
+        commercial_score: kw.commercial_score,
+        is_seed: kw.is_seed,
+        source: kw.source,
+        intent: kw.intent,
+        serp_features: kw.serp_features,
+        own_position: kw.own_position,
+        own_url: kw.own_url,
+        traffic_projection: kw.traffic_projection || null,
+        expansion: kw.expansion || null,
+        brand: kw.brand || null,
+        serp_urls: kw.serp_urls.map(url => ({
+          url: url.url,
+          title: url.title,
+          domain: url.domain,
+          position: url.position
+        }))
+      })),
+      competitor_domains: cluster.competitor_domains,
+      ai_competitors: cluster.ai_competitors || []
+    })),
+    competitors: {
+      all_competitors: report.competitors,
+      total_count: report.competitors.length,
+      serp_competitors: [...new Set(report.clusters.flatMap(c => c.competitor_domains))].filter(d => d && d.length > 0),
+      ai_competitors: [...new Set(report.clusters.flatMap(c => c.ai_competitors || []))].filter(d => d && d.length > 0),
+      by_cluster: report.clusters.map(cluster => ({
+        cluster: cluster.main_keyword,
+        serp_competitors: cluster.competitor_domains,
+        ai_competitors: cluster.ai_competitors || []
+      })).filter(c => c.serp_competitors.length > 0 || c.ai_competitors.length > 0)
+    },
+    people_also_ask: report.clusters.flatMap(cluster => cluster.keywords.flatMap(kw =>
+      (kw.serp_features?.people_also_ask || []).map(question => ({ question, keyword: kw.keyword, cluster: cluster.main_keyword }))
+    )),
+    keyword_gap: report.keyword_gap ? formatKeywordGap(report.keyword_gap) : null,
+    action_plan: {
+      immediate_actions: [
+        `Target quick win keywords with low competition (${quickWinRule(report.analysis_summary.opportunity_thresholds)})`,
+        "Create targeted landing pages for main keyword clusters",
+        "Analyze competitor content strategies for top domains",
+        "Optimize existing pages for high-volume, low-competition keywords",
+        "Set up keyword tracking for priority clusters"
+      ],
+      medium_term_goals: [
+        "Build comprehensive content for high-value clusters",
+        "Develop internal linking strategy between related keywords",
+        "Start building backlinks to target pages",
+        "Create content hubs around main themes",
+        "Implement schema markup for better SERP visibility"
+      ],
+      long_term_strategy: [
+        "Build domain authority through high-quality content",
+        "Target high-difficulty, high-value keywords",
+        "Expand into related keyword opportunities",
+        "Develop comprehensive competitor analysis and positioning",
+        "Scale content production for semantic keyword coverage"
+      ]
+    },
+    performance_metrics: {
+      quick_wins_available: report.quick_wins.length,
+      high_value_opportunities: report.high_value.length,
+      total_potential_traffic: report.analysis_summary.estimated_monthly_traffic_potential,
+      average_cpc_across_all: Number(report.analysis_summary.avg_cpc.toFixed(2)),
+      total_commercial_value: report.clusters.reduce((sum, c) => sum + c.total_commercial_score, 0)
+    },
+    cost_breakdown: report.cost_breakdown,
+    failures: report.failures || [],
+    filtered: report.filtered || null,
+    cache: cache,
+    files: {
+      json_report_path: files.json_report_path,
+      text_report_path: files.text_report_path,
+      keywords_csv_path: files.keywords_csv_path,
+      clusters_csv_path: files.clusters_csv_path,
+      html_report_path: files.html_report_path,
+      files_saved: !!(files.json_report_path && files.text_report_path),
+      save_error: files.save_error
+    }
+  };
+}
+
+// Read the keyword gap tuning arguments shared by analyze_website and keyword_gap
+function parseKeywordGapOptions(competitors: unknown, minCompetitors: unknown): KeywordGapOptions {
+  const options: KeywordGapOptions = {};
+  if (competitors !== undefined) {
+    if (typeof competitors !== 'number' || !Number.isInteger(competitors) || competitors < 1 || competitors > 10) {
+      throw new Error('The number of gap competitors must be an integer between 1 and 10.');
+    }
+    options.competitors = competitors;
+  }
+  if (minCompetitors !== undefined) {
+    if (typeof minCompetitors !== 'number' || !Number.isInteger(minCompetitors) || minCompetitors < 1 || minCompetitors > 10) {
+      throw new Error('min_competitors must be an integer between 1 and 10.');
+    }
+    options.minCompetitors = minCompetitors;
+  }
+  return options;
+}
+
+// Read the multi-page crawl arguments of analyze_website
+function parseCrawlOptions(args: Record<string, unknown> | undefined): CrawlOptions {
+  const { crawl_mode, max_pages, include_paths, exclude_paths } = args || {};
+  const options: CrawlOptions = {};
+
+  if (crawl_mode !== undefined) {
+    if (crawl_mode !== 'homepage' && crawl_mode !== 'sitemap' && crawl_mode !== 'firecrawl_map') {
+      throw new Error('crawl_mode must be one of: homepage, sitemap, firecrawl_map.');
+    }
+    options.mode = crawl_mode;
+  }
+
+  if (max_pages !== undefined) {
+    if (typeof max_pages !== 'number' || !Number.isInteger(max_pages) || max_pages < 1 || max_pages > MAX_PAGES_LIMIT) {
+      throw new Error(`max_pages must be an integer between 1 and ${MAX_PAGES_LIMIT}.`);
+    }
+    options.maxPages = max_pages;
+  }
+
+  const patterns = (value: unknown, name: string): string[] | undefined => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.some(pattern => typeof pattern !== 'string' || pattern.trim() === '')) {
+      throw new Error(`${name} must be an array of path patterns (e.g., ["/products/*"]).`);
+    }
+    return value.map(pattern => pattern.trim());
+  };
+
+  options.includePaths = patterns(include_paths, 'include_paths');
+  options.excludePaths = patterns(exclude_paths, 'exclude_paths');
+
+  return options;
+}
+
+// Read the keyword expansion arguments of analyze_website
+function parseExpansionOptions(args: Record<string, unknown> | undefined): ExpansionOptions {
+  const { expansion, expansion_seeds, modifier_templates } = args || {};
+  const options: ExpansionOptions = {};
+
+  if (expansion !== undefined) {
+    if (!Array.isArray(expansion) || expansion.length === 0 || expansion.some(strategy => !EXPANSION_STRATEGIES.includes(strategy))) {
+      throw new Error(`expansion must be a non-empty array of: ${EXPANSION_STRATEGIES.join(', ')}.`);
+    }
+    options.strategies = [...new Set(expansion as ExpansionStrategy[])];
+  }
+
+  if (expansion_seeds !== undefined) {
+    if (typeof expansion_seeds !== 'number' || !Number.isInteger(expansion_seeds) || expansion_seeds < 1 || expansion_seeds > MAX_EXPANSION_SEEDS) {
+      throw new Error(`expansion_seeds must be an integer between 1 and ${MAX_EXPANSION_SEEDS}.`);
+    }
+    options.seeds = expansion_seeds;
+  }
+
+  if (modifier_templates !== undefined) {
+    if (!Array.isArray(modifier_templates) || modifier_templates.length === 0 || modifier_templates.some(template => typeof template !== 'string' || template.trim() === '')) {
+      throw new Error('modifier_templates must be a non-empty array of templates (e.g., ["best {seed}", "{seed} vs {other}"]).');
+    }
+    options.modifierTemplates = modifier_templates.map(template => template.trim());
+    validateModifierTemplates(options.modifierTemplates);
+  }
+
+  return options;
+}
+
+const clusterSchemaProperties = {
+  cluster_mode: {
+    type: 'string',
+    enum: ['word_overlap', 'serp_overlap'],
+    description: 'How keywords are grouped: "word_overlap" groups keywords sharing significant words, "serp_overlap" groups keywords whose top 10 Google results share URLs (default: word_overlap)',
+  },
+  serp_overlap_threshold: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 10,
+    description: 'Minimum number of shared top-10 URLs for two keywords to cluster in serp_overlap mode (default: 3)',
+  },
+  max_cluster_size: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Maximum keywords per cluster (default: 10)',
+  },
+  max_clusters: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Maximum number of clusters returned (default: 15)',
+  },
+};
+
+const cacheSchema = {
+  type: 'string',
+  enum: CACHE_MODES,
+  description: 'Response cache behaviour: "use" reads and writes cached API responses, "refresh" calls the APIs and updates the cache, "bypass" ignores the cache entirely (default: use)',
+};
+
+const prioritySchema = {
+  type: 'string',
+  enum: ['live', 'standard'],
+  description: 'DataForSEO keyword data: "live" (default) answers within seconds; "standard" posts tasks to the cheaper queue and polls until the results are ready, which can take several minutes or more',
+};
+
+const scoringProfileSchema = {
+  type: 'string',
+  description: 'Scoring profile that sets the intent multipliers, competition weights and opportunity thresholds: built-in "default", "local_service", "national" or "relative" (percentile thresholds), or a profile from scoring-profiles.json (default: SCORING_PROFILE, then "default")',
+};
+
+// analyze_website and start_analysis take the same arguments
+const analysisSchemaProperties = {
+  website_url: {
+    type: 'string',
+    description: 'The website URL to analyze (e.g., https://example.com)',
+  },
+  business_type: {
+    type: 'string',
+    enum: ['E-commerce', 'SaaS', 'Service Business', 'Blog/Content', 'Education', 'Other'],
+    description: 'The type of business for targeted keyword analysis',
+  },
+  location: {
+    type: ['string', 'number'],
+    description: 'Target market as a country name, ISO code or DataForSEO location code (e.g., "United Kingdom", "de", 2124). Defaults to United States.',
+  },
+  language: {
+    type: 'string',
+    description: 'Search language as a name or ISO 639-1 code (e.g., "German", "fr"). Defaults to the primary language of the location.',
+  },
+  seed_keywords: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Must-cover seed keywords to research alongside (or instead of) the AI-generated seeds',
+  },
+  seed_mode: {
+    type: 'string',
+    enum: ['merge', 'replace'],
+    description: 'How to use seed_keywords: "merge" adds them to the AI-generated seeds, "replace" skips website scraping and AI generation and uses only your seeds (default: merge)',
+  },
+  ...clusterSchemaProperties,
+  cache: cacheSchema,
+  crawl_mode: {
+    type: 'string',
+    enum: ['homepage', 'sitemap', 'firecrawl_map'],
+    description: 'Pages used for seed generation: "homepage" scrapes only the given URL, "sitemap" adds pages listed in robots.txt/sitemap.xml, "firecrawl_map" adds pages found by Firecrawl\'s map endpoint (default: homepage)',
+  },
+  max_pages: {
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_PAGES_LIMIT,
+    description: `Maximum pages to scrape in a crawl mode, including the homepage (default: ${DEFAULT_MAX_PAGES})`,
+  },
+  include_paths: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only crawl pages whose path matches one of these patterns (e.g., ["/products/*", "/services"]); patterns without * match as prefixes',
+  },
+  exclude_paths: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Skip pages whose path matches one of these patterns (e.g., ["/blog/*", "/legal"])',
+  },
+  keyword_gap: {
+    type: 'boolean',
+    description: 'Also run a competitor keyword gap: keywords the top competitor domains rank for and this site does not (default: false)',
+  },
+  gap_competitors: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 10,
+    description: 'Number of top competitor domains compared in the keyword gap (default: 5)',
+  },
+  gap_min_competitors: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 10,
+    description: 'Minimum competitors that must rank for a keyword for it to count as a gap (default: 2)',
+  },
+  export_formats: {
+    type: 'array',
+    items: { type: 'string', enum: EXPORT_FORMATS },
+    description: 'Additional report files to write: "csv" (keyword and cluster summary CSVs) and/or "html" (self-contained report with sortable tables)',
+  },
+  max_budget_usd: {
+    type: 'number',
+    exclusiveMinimum: 0,
+    description: 'Stop making paid API calls once this much (in USD) would be exceeded; the report is built from whatever data was collected',
+  },
+  priority: prioritySchema,
+  scoring_profile: scoringProfileSchema,
+  threshold_mode: {
+    type: 'string',
+    enum: THRESHOLD_MODES,
+    description: 'Override the profile\'s threshold mode: "absolute" uses its fixed difficulty and commercial score thresholds, "percentile" picks them from this run\'s clusters (the profile\'s percentiles)',
+  },
+  expansion: {
+    type: 'array',
+    items: { type: 'string', enum: EXPANSION_STRATEGIES },
+    description: 'Keyword expansion strategies: "related" (Google Ads related keywords), "questions" (who/what/how/why/can... keywords containing a seed), "suggestions" (autocomplete-style keywords containing a seed, from DataForSEO Labs), "modifiers" (templates such as "best X for Y", "X vs Y", "X near me" filled with the seeds). Each keyword records the strategy and seed that found it (default: ["related"])',
+  },
+  expansion_seeds: {
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_EXPANSION_SEEDS,
+    description: `Number of seeds (user seeds first) the questions, suggestions and modifiers strategies expand; each questions or suggestions seed is one DataForSEO Labs call (default: ${DEFAULT_EXPANSION_SEEDS})`,
+  },
+  modifier_templates: {
+    type: 'array',
+    items: { type: 'string' },
+    description: `Templates for the modifiers strategy; {seed} is replaced with each seed and {other} with each other seed. Only keywords with search volume are kept (default: ${JSON.stringify(DEFAULT_MODIFIER_TEMPLATES)})`,
+  },
+  filters: {
+    type: 'object',
+    description: 'Keyword filters, merged with keyword-filters.json (lists are combined, other values replace the file\'s). Applied to AI seeds, to related and expanded keywords as they are added, and to all keywords before clustering; user seeds are never removed. The report lists what was removed and why',
+    properties: {
+      exclude_terms: { type: 'array', items: { type: 'string' }, description: 'Remove keywords containing any of these words or phrases' },
+      exclude_patterns: { type: 'array', items: { type: 'string' }, description: 'Remove keywords matching any of these regular expressions (case-insensitive)' },
+      include_terms: { type: 'array', items: { type: 'string' }, description: 'Keep only keywords containing one of these words or phrases (or matching an include pattern)' },
+      include_patterns: { type: 'array', items: { type: 'string' }, description: 'Keep only keywords matching one of these regular expressions (or containing an include term)' },
+      min_volume: { type: 'integer', minimum: 0, description: 'Minimum monthly search volume; replaces the built-in floors (related keywords above 50, clustered keywords above 20)' },
+      max_volume: { type: 'integer', minimum: 0, description: 'Maximum monthly search volume' },
+      min_words: { type: 'integer', minimum: 1, description: 'Minimum words per keyword' },
+      max_words: { type: 'integer', minimum: 1, description: 'Maximum words per keyword' },
+      own_brands: { type: 'array', items: { type: 'string' }, description: 'Brand names of the analyzed site; matching keywords are tagged brand "own" with navigational intent' },
+      competitor_brands: { type: 'array', items: { type: 'string' }, description: 'Competitor brand names; matching keywords are tagged brand "competitor" with navigational intent' },
+      drop_brands: { type: 'string', enum: BRAND_DROP_MODES, description: 'Remove brand keywords: "none" keeps them tagged (default), "competitors" removes competitor brands, "all" removes both' },
+      technical_filter: { type: 'boolean', description: 'Built-in removal of developer terms ("api", "server", "code") from AI seeds and code-heavy sentences from page content. Turn off for hosting or developer-tools sites (default: true)' },
+    },
+  },
+};
 
 // List available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -1103,14 +2687,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: 'object',
           properties: {
-            website_url: {
-              type: 'string',
-              description: 'The website URL to analyze (e.g., https://example.com)',
-            },
-            business_type: {
-              type: 'string',
-              enum: ['E-commerce', 'SaaS', 'Service Business', 'Blog/Content', 'Education', 'Other'],
-              description: 'The type of business for targeted keyword analysis',
+            ...analysisSchemaProperties,
+            dry_run: {
+              type: 'boolean',
+              description: 'Only estimate the API cost of this analysis, per step and provider, without making any paid calls (default: false)',
             },
           },
           required: [
@@ -1119,184 +2699,1045 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           ],
         },
       } as Tool,
-    ],
-  };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  if (name === 'analyze_website') {
-    try {
+      {
+        name: 'get_keyword_metrics',
+        description: 'Get search volume, CPC, competition, difficulty and commercial score for a list of keywords you already have, without scraping a website. Optionally groups the results into keyword clusters.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            keywords: {
+              type: 'array',
+              items: { type: 'string' },
+              minItems: 1,
+              maxItems: 1000,
+              description: 'The keywords to look up (up to 1000)',
+            },
+            business_type: {
+              type: 'string',
+              enum: ['E-commerce', 'SaaS', 'Service Business', 'Blog/Content', 'Education', 'Other'],
+              description: 'The type of business, used for commercial scoring. Defaults to "Other".',
+            },
+            location: {
+              type: ['string', 'number'],
+              description: 'Target market as a country name, ISO code or DataForSEO location code (e.g., "United Kingdom", "de", 2124). Defaults to United States.',
+            },
+            language: {
+              type: 'string',
+              description: 'Search language as a name or ISO 639-1 code (e.g., "German", "fr"). Defaults to the primary language of the location.',
+            },
+            include_serp: {
+              type: 'boolean',
+              description: 'Fetch live SERPs for the 15 highest-volume keywords to compute SERP-based difficulty and competitor domains (default: true)',
+            },
+            cluster: {
+              type: 'boolean',
+              description: 'Group the keywords into clusters (default: false)',
+            },
+            ...clusterSchemaProperties,
+            cache: cacheSchema,
+            priority: prioritySchema,
+            scoring_profile: scoringProfileSchema,
+          },
+          required: [
+            'keywords',
+          ],
+        },
+      } as Tool,
+      {
+        name: 'compare_reports',
+        description: 'Compare two saved analyses of the same site and show what moved: keywords and clusters added or removed, volume/CPC/difficulty changes, competitors that entered or left, and changes in quick wins and high-value targets.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            previous_report: {
+              type: 'string',
+              description: 'Path to the older JSON report (absolute, relative, or a file name inside reports/)',
+            },
+            current_report: {
+              type: 'string',
+              description: 'Path to the newer JSON report',
+            },
+            domain: {
+              type: 'string',
+              description: 'Compare the latest saved report for this domain with the one before it (used when report paths are not given)',
+            },
+          },
+        },
+      } as Tool,
+      {
+        name: 'list_reports',
+        description: 'List saved keyword research reports, newest first, optionally filtered by domain, business type or date range.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            domain: {
+              type: 'string',
+              description: 'Only reports for this domain (e.g., example.com)',
+            },
+            business_type: {
+              type: 'string',
+              description: 'Only reports for this business type',
+            },
+            since: {
+              type: 'string',
+              description: 'Only reports generated on or after this date (ISO format, e.g., 2024-01-01)',
+            },
+            until: {
+              type: 'string',
+              description: 'Only reports generated on or before this date (ISO format)',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Maximum number of reports to return (default: 50)',
+            },
+          },
+        },
+      } as Tool,
+      {
+        name: 'get_report',
+        description: 'Fetch a saved keyword research report, or a single cluster from it, without re-running the analysis.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            report: {
+              type: 'string',
+              description: 'Report path, file name inside reports/, or report:// resource URI (as returned by list_reports)',
+            },
+            cluster_id: {
+              type: 'integer',
+              description: 'Return only the cluster with this id',
+            },
+            cluster: {
+              type: 'string',
+              description: 'Return only the cluster with this main keyword',
+            },
+            format: {
+              type: 'string',
+              enum: ['json', 'text'],
+              description: 'Return the JSON report or the formatted text report (default: json; ignored when a cluster is requested)',
+            },
+          },
+          required: [
+            'report',
+          ],
+        },
+      } as Tool,
+      {
+        name: 'keyword_gap',
+        description: 'Find keywords that two or more competitor domains rank for and the given site does not, scored and clustered like the main analysis (uses DataForSEO Labs ranked keywords).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            website_url: {
+              type: 'string',
+              description: 'Your website URL or domain (e.g., https://example.com)',
+            },
+            business_type: {
+              type: 'string',
+              enum: ['E-commerce', 'SaaS', 'Service Business', 'Blog/Content', 'Education', 'Other'],
+              description: 'Business type used for commercial scoring (default: Other)',
+            },
+            competitors: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Competitor domains to compare against. When omitted, the top competitors of a saved report are used',
+            },
+            report: {
+              type: 'string',
+              description: 'Saved report to take competitors from (path or file name). Defaults to the latest saved report for the domain',
+            },
+            max_competitors: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 10,
+              description: 'Maximum competitor domains compared (default: 5)',
+            },
+            min_competitors: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 10,
+              description: 'Minimum competitors that must rank for a keyword for it to count as a gap (default: 2)',
+            },
+            keywords_per_domain: {
+              type: 'integer',
+              minimum: 10,
+              maximum: 1000,
+              description: 'Ranked keywords fetched per domain, highest search volume first (default: 500)',
+            },
+            location: {
+              type: ['string', 'number'],
+              description: 'Target market as a country name, ISO code or DataForSEO location code. Defaults to United States.',
+            },
+            language: {
+              type: 'string',
+              description: 'Search language as a name or ISO 639-1 code. Defaults to the primary language of the location.',
+            },
+            ...clusterSchemaProperties,
+            cache: cacheSchema,
+            scoring_profile: scoringProfileSchema,
+          },
+          required: [
+            'website_url',
+          ],
+        },
+      } as Tool,
+      {
+        name: 'start_analysis',
+        description: 'Start analyze_website as a background job and return its job id immediately. Each pipeline step is checkpointed to disk, so a failed or interrupted job can be resumed by passing its job_id.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...analysisSchemaProperties,
+            job_id: {
+              type: 'string',
+              description: 'Resume this failed or interrupted job from its last completed step instead of starting a new one (the other arguments are then ignored)',
+            },
+          },
+        },
+      } as Tool,
+      {
+        name: 'get_analysis_status',
+        description: 'Get the status, progress and completed steps of a job started with start_analysis.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            job_id: {
+              type: 'string',
+              description: 'Job id returned by start_analysis',
+            },
+          },
+          required: [
+            'job_id',
+          ],
+        },
+      } as Tool,
+      {
+        name: 'track_keywords',
+        description: 'Add keywords to the local rank-tracking store for a domain and market, then check and record their current Google positions. Returns the position of each tracked keyword, movement since the previous check and average position per cluster.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            website_url: {
+              type: 'string',
+              description: 'Website URL or domain whose positions are tracked (subdomains count as the same site)',
+            },
+            keywords: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Keywords to start tracking',
+            },
+            cluster: {
+              type: 'string',
+              description: 'Cluster name to group the given keywords under for per-cluster averages',
+            },
+            report: {
+              type: 'string',
+              description: 'Saved report to take cluster_ids from (path or file name). Defaults to the latest saved report for the domain',
+            },
+            cluster_ids: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: 'Track every keyword of these report clusters, grouped under the cluster\'s main keyword',
+            },
+            untrack: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Keywords to stop tracking; their recorded history is kept',
+            },
+            location: {
+              type: ['string', 'number'],
+              description: 'Target market as a country name, ISO code or DataForSEO location code. Defaults to the report\'s market when cluster_ids are given, otherwise United States.',
+            },
+            language: {
+              type: 'string',
+              description: 'Search language as a name or ISO 639-1 code. Defaults to the primary language of the location.',
+            },
+            serp_depth: {
+              type: 'integer',
+              minimum: 10,
+              maximum: 100,
+              description: 'Results checked per keyword; positions beyond it are recorded as not ranking (default: 100)',
+            },
+            check: {
+              type: 'boolean',
+              description: `Check the current positions of all tracked keywords in this market, up to ${MAX_RANK_CHECKS_PER_CALL} per call (default: true)`,
+            },
+            cache: {
+              ...cacheSchema,
+              description: 'Response cache behaviour (default: refresh, so that every check fetches current SERPs)',
+            },
+            priority: prioritySchema,
+          },
+          required: [
+            'website_url',
+          ],
+        },
+      } as Tool,
+      {
+        name: 'get_rank_history',
+        description: 'Get the recorded positions of tracked keywords for a domain: a time series per keyword, movement since the last check and average position per cluster. Makes no API calls.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            website_url: {
+              type: 'string',
+              description: 'Website URL or domain',
+            },
+            location: {
+              type: ['string', 'number'],
+              description: 'Only this market (country name, ISO code or DataForSEO location code). Defaults to every tracked market',
+            },
+            language: {
+              type: 'string',
+              description: 'Only this search language (name or ISO 639-1 code)',
+            },
+            keywords: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only these tracked keywords',
+            },
+            cluster: {
+              type: 'string',
+              description: 'Only keywords tracked under this cluster',
+            },
+            since: {
+              type: 'string',
+              description: 'Only include checks on or after this date in the time series (e.g., 2024-01-31)',
+            },
+          },
+          required: [
+            'website_url',
+          ],
+        },
+      } as Tool,
+      {
+        name: 'generate_content_brief',
+        description: 'Write a content brief for one cluster of a saved report: scrapes the top-ranking pages from its SERPs for their headings and word counts, then uses the configured LLM to produce target keywords, an H1/H2 outline, questions to answer, competitor angles and a recommended length, in Markdown and JSON.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            report: {
+              type: 'string',
+              description: 'Saved report (path, file name or report:// URI). Defaults to the latest saved report for website_url',
+            },
+            website_url: {
+              type: 'string',
+              description: 'Use the latest saved report for this site when report is not given',
+            },
+            cluster_id: {
+              type: 'integer',
+              description: 'Cluster to write the brief for',
+            },
+            cluster: {
+              type: 'string',
+              description: 'Cluster main keyword, as an alternative to cluster_id (case-insensitive)',
+            },
+            max_pages: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 10,
+              description: 'Top-ranking pages scraped for their outlines (default: 5)',
+            },
+            cache: cacheSchema,
+          },
+        },
+      } as Tool,
+      {
+        name: 'get_analysis_result',
+        description: 'Get the full analysis result of a completed start_analysis job, in the same shape as analyze_website.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            job_id: {
+              type: 'string',
+              description: 'Job id returned by start_analysis',
+            },
+          },
+          required: [
+            'job_id',
+          ],
+        },
+      } as Tool,
+    ],
+  };
+});
+
+// Progress notifications are only sent when the client asked for them with a progress token;
+// the signal is aborted when the client cancels the request
+function createProgressReporter(progressToken: ProgressToken | undefined, signal: AbortSignal): ProgressReporter {
+  if (progressToken === undefined) {
+    return new ProgressReporter(undefined, signal);
+  }
+  return new ProgressReporter((progress, total, message) => {
+    server.notification({ method: 'notifications/progress', params: { progressToken, progress, total, message } })
+      .catch(error => console.error('Failed to send progress notification:', error instanceof Error ? error.message : error));
+  }, signal);
+}
+
+const jobStore = new JobStore();
+// Jobs running in this process; a job whose file says running but is not listed here was interrupted
+const runningJobs = new Set<string>();
+
+function jobStatus(job: AnalysisJob): JobStatus {
+  return job.status === 'running' && !runningJobs.has(job.job_id) ? 'interrupted' : job.status;
+}
+
+// Run (or resume) a job in the background; steps with a checkpoint from an earlier attempt are skipped
+async function runAnalysisJob(job: AnalysisJob): Promise<void> {
+  runningJobs.add(job.job_id);
+  job.status = 'running';
+  job.error = null;
+  job.attempts++;
+  jobStore.save(job);
+  let saveCosts = () => {};
+
+  try {
+    const request = parseAnalysisRequest(job.args);
+    const progress = new ProgressReporter((progress, total, message) => {
+      job.progress = { progress, total, message };
+      saveCosts();
+      jobStore.save(job);
+    });
+    // Spending of earlier attempts counts against the budget and stays in the final cost_breakdown
+    const costs = new CostTracker(request.maxBudgetUsd);
+    if (job.cost) costs.restore(job.cost);
+    saveCosts = () => { job.cost = costs.getBreakdown(); };
+    const keywordTool = new KeywordResearchTool(new ResponseCache(request.cacheMode), costs, progress, request.priority, request.scoring);
+
+    const report = await keywordTool.performAnalysis(job.website_url, job.business_type, {
+      ...request.options,
+      checkpoints: jobStore.checkpoints(job.job_id)
+    });
+    job.files = await saveAnalysisFiles(keywordTool, report, job.website_url, job.business_type, request.exportFormats);
+    job.cache = keywordTool.getCacheStats();
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+    console.error(`Analysis job ${job.job_id} failed:`, job.error);
+  } finally {
+    saveCosts();
+    runningJobs.delete(job.job_id);
+    jobStore.save(job);
+  }
+}
+
+// Handle tool calls
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+  const { name, arguments: args } = request.params;
+  const progress = createProgressReporter(request.params._meta?.progressToken, extra.signal);
+
+  if (name === 'analyze_website') {
+    try {
+      const { website_url, business_type, dry_run } = (args || {}) as unknown as AnalysisArgs;
+      const request = parseAnalysisRequest(args);
+      // Providers are chosen from the environment (set by DXT runtime)
+      const keywordTool = new KeywordResearchTool(new ResponseCache(request.cacheMode), new CostTracker(request.maxBudgetUsd), progress, request.priority, request.scoring);
+      const missing = missingAnalysisConfig(keywordTool, request);
+
+      if (dry_run) {
+        const estimate = keywordTool.estimateAnalysisCost(request.options);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                dry_run: true,
+                website_url: website_url,
+                business_type: business_type,
+                estimate: estimate,
+                budget_usd: request.maxBudgetUsd,
+                within_budget: request.maxBudgetUsd === null ? null : estimate.total_usd <= request.maxBudgetUsd,
+                missing_config: missing
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      if (missing.length > 0) {
+        throw new Error(`API keys are not configured. Please ensure all required API keys are set in the extension configuration: ${missing.join(', ')}.`);
+      }
+
+      const report = await keywordTool.performAnalysis(website_url, business_type, request.options);
+      const files = await saveAnalysisFiles(keywordTool, report, website_url, business_type, request.exportFormats);
+      const responseData = analysisResponse(report, website_url, business_type, files, keywordTool.getCacheStats());
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(responseData, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Analysis Failed:** ${error instanceof Error ? error.message : String(error)}
+
+Please check:
+- All API keys are correct and valid
+- Website URL is accessible 
+- You have sufficient API credits
+- Network connectivity
+
+Run again with \`dry_run: true\` to see the expected API cost per step and provider without spending anything.`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'start_analysis') {
+    try {
+      const { job_id, website_url, business_type } = (args || {}) as unknown as StartAnalysisArgs;
+
+      let job: AnalysisJob;
+      if (job_id) {
+        job = jobStore.load(job_id);
+        if (runningJobs.has(job.job_id)) {
+          throw new Error(`Job ${job.job_id} is still running. Poll get_analysis_status for its progress.`);
+        }
+        if (job.status === 'completed') {
+          throw new Error(`Job ${job.job_id} has already completed. Use get_analysis_result to fetch its report.`);
+        }
+      } else {
+        const { dry_run, ...jobArgs } = args || {};
+        parseAnalysisRequest(jobArgs);
+        job = jobStore.create(website_url!, business_type!, jobArgs);
+      }
+
+      // Checked on resume too, as a job often fails because of a missing or wrong key
+      const missing = missingAnalysisConfig(new KeywordResearchTool(), parseAnalysisRequest(job.args));
+      if (missing.length > 0) {
+        throw new Error(`API keys are not configured. Please ensure all required API keys are set in the extension configuration: ${missing.join(', ')}.`);
+      }
+
+      const completedSteps = jobStore.completedSteps(job.job_id);
+      runAnalysisJob(job).catch(error => console.error(`Analysis job ${job.job_id} crashed:`, error));
+
+      const responseData = {
+        success: true,
+        job_id: job.job_id,
+        status: job.status,
+        resumed: !!job_id,
+        website_url: job.website_url,
+        business_type: job.business_type,
+        // Steps that will be reused from checkpoints rather than run again
+        completed_steps: completedSteps,
+        next_step: 'Poll get_analysis_status with this job_id, then call get_analysis_result once it has completed.'
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(responseData, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Starting Analysis Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'get_analysis_status') {
+    try {
+      const { job_id } = (args || {}) as unknown as AnalysisJobArgs;
+      if (!job_id) {
+        throw new Error('job_id is a required parameter.');
+      }
+
+      const job = jobStore.load(job_id);
+      const status = jobStatus(job);
+      const responseData = {
+        job_id: job.job_id,
+        status: status,
+        website_url: job.website_url,
+        business_type: job.business_type,
+        created_at: job.created_at,
+        updated_at: job.updated_at,
+        attempts: job.attempts,
+        progress: job.progress,
+        completed_steps: jobStore.completedSteps(job.job_id),
+        cost: job.cost ?? null,
+        error: job.error,
+        // Failed and interrupted jobs resume from their last completed step
+        resumable: status === 'failed' || status === 'interrupted'
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(responseData, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Job Status Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'get_analysis_result') {
+    try {
+      const { job_id } = (args || {}) as unknown as AnalysisJobArgs;
+      if (!job_id) {
+        throw new Error('job_id is a required parameter.');
+      }
+
+      const job = jobStore.load(job_id);
+      const status = jobStatus(job);
+      if (status !== 'completed') {
+        const hint = status === 'running'
+          ? 'Poll get_analysis_status until it completes.'
+          : 'Resume it with start_analysis and this job_id.';
+        throw new Error(`Job ${job.job_id} is ${status}${job.error ? ` (${job.error})` : ''}. ${hint}`);
+      }
+
+      const report = jobStore.checkpoints(job.job_id).load<AnalysisReport>('report');
+      if (!report) {
+        throw new Error(`The report of job ${job.job_id} is missing from its checkpoints.`);
+      }
+
+      const responseData = {
+        job_id: job.job_id,
+        ...analysisResponse(report, job.website_url, job.business_type, job.files!, job.cache)
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(responseData, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Loading Analysis Result Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'track_keywords') {
+    try {
+      const {
+        website_url,
+        keywords,
+        cluster,
+        report,
+        cluster_ids,
+        untrack,
+        location,
+        language,
+        serp_depth = RANK_TRACKING_SERP_DEPTH,
+        check = true,
+        cache = 'refresh',
+        priority,
+      } = (args || {}) as unknown as TrackKeywordsArgs;
+
+      if (!website_url) {
+        throw new Error('website_url is a required parameter.');
+      }
+
+      for (const [field, value] of Object.entries({ keywords, untrack })) {
+        if (value !== undefined && (!Array.isArray(value) || value.some(kw => typeof kw !== 'string'))) {
+          throw new Error(`${field} must be an array of strings.`);
+        }
+      }
+
+      if (cluster_ids !== undefined && (!Array.isArray(cluster_ids) || cluster_ids.some(id => !Number.isInteger(id)))) {
+        throw new Error('cluster_ids must be an array of cluster ids.');
+      }
+
+      if (report && !cluster_ids) {
+        throw new Error('Pass cluster_ids to choose which clusters of the report to track.');
+      }
+
+      if (!Number.isInteger(serp_depth) || serp_depth < 10 || serp_depth > 100) {
+        throw new Error('serp_depth must be an integer between 10 and 100.');
+      }
+
+      const keywordTool = new KeywordResearchTool(new ResponseCache(parseCacheMode(cache)), new CostTracker(), progress, parseDataPriority(priority));
+      const domain = keywordTool.extractDomain(website_url.startsWith('http') ? website_url : `https://${website_url}`);
+      if (!domain) {
+        throw new Error('Please enter a valid website URL.');
+      }
+
+      let savedReport: SavedReport | null = null;
+      if (cluster_ids) {
+        const reportPath = report ? resolveReportPath(report) : filterSavedReports({ domain })[0]?.json_path;
+        if (!reportPath) {
+          throw new Error(`No saved report found for ${domain}. Pass report or run analyze_website first.`);
+        }
+        savedReport = loadReport(reportPath);
+      }
+
+      const summary = savedReport?.analysis_summary;
+      const market = location === undefined && language === undefined && summary?.location_code
+        ? resolveMarket(summary.location_code, summary.language_code)
+        : resolveMarket(location, language);
+
+      // Keywords picked from report clusters are grouped under the cluster's main keyword
+      const reportClusters = savedReport ? savedReport.clusters.filter(c => cluster_ids!.includes(c.cluster_id)) : [];
+      if (cluster_ids && reportClusters.length < cluster_ids.length) {
+        const found = new Set(reportClusters.map(c => c.cluster_id));
+        throw new Error(`Cluster ${cluster_ids.filter(id => !found.has(id)).join(', ')} not found in the report.`);
+      }
+
+      const newEntries = [
+        ...(keywords || []).map(keyword => ({ keyword: keyword.trim(), cluster: cluster || null })),
+        ...reportClusters.flatMap(c => c.keywords.map(kw => ({ keyword: kw.keyword, cluster: c.main_keyword })))
+      ].filter(entry => entry.keyword.length > 0);
+
+      const rankStore = new RankStore();
+      const marketFilter = { location_code: market.location_code, language_code: market.language_code };
+      const added = rankStore.track(newEntries.map(entry => ({ ...entry, domain, ...marketFilter })));
+      const untracked = untrack ? rankStore.untrack(domain, untrack, marketFilter) : 0;
+      const tracked = rankStore.listTracked(domain, marketFilter);
+
+      let checkedCount = 0;
+      let notChecked = 0;
+      if (check && tracked.length > 0) {
+        const missing = keywordTool.missingConfig({ keywordData: true });
+        if (missing.length > 0) {
+          throw new Error(`Keyword data credentials are not configured. Please ensure ${missing.join(' and ')} are set in the extension configuration.`);
+        }
+
+        // Least recently checked first, so that repeated calls cycle through a tracked set larger than the per-call limit
+        const lastChecked = new Map(rankStore.history(domain, marketFilter).keywords.map(kw => [kw.keyword.toLowerCase(), kw.last_checked || '']));
+        const toCheck = tracked
+          .map(entry => entry.keyword)
+          .sort((a, b) => (lastChecked.get(a.toLowerCase()) || '').localeCompare(lastChecked.get(b.toLowerCase()) || ''))
+          .slice(0, MAX_RANK_CHECKS_PER_CALL);
+
+        progress.startStep(`Checking positions for ${toCheck.length} keywords`);
+        const checks = await keywordTool.checkRankings(toCheck, domain, market, serp_depth);
+        rankStore.recordChecks(checks);
+        progress.finishStep();
+
+        checkedCount = checks.length;
+        notChecked = tracked.length - toCheck.length;
+      }
+
+      const history = rankStore.history(domain, marketFilter);
+      const responseData = {
+        success: true,
+        metadata: {
+          domain: domain,
+          location: market.location_name,
+          location_code: market.location_code,
+          language: market.language_name,
+          language_code: market.language_code,
+          serp_depth: serp_depth,
+          tool_version: "1.0.0"
+        },
+        tracked_keywords: history.tracked_keywords,
+        newly_tracked: added.map(entry => entry.keyword),
+        untracked: untracked,
+        checked_keywords: checkedCount,
+        not_checked_this_call: notChecked,
+        movement: history.movement,
+        clusters: history.clusters,
+        // The full time series is available from get_rank_history
+        keywords: history.keywords.map(({ history: _series, ...kw }) => kw),
+        failures: keywordTool.getFailures(),
+        cost: keywordTool.getCostBreakdown(),
+        cache: keywordTool.getCacheStats()
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(responseData, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Rank Tracking Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'get_rank_history') {
+    try {
+      const { website_url, location, language, keywords, cluster, since } = (args || {}) as unknown as RankHistoryArgs;
+
+      if (!website_url) {
+        throw new Error('website_url is a required parameter.');
+      }
+
+      if (keywords !== undefined && (!Array.isArray(keywords) || keywords.some(kw => typeof kw !== 'string'))) {
+        throw new Error('keywords must be an array of strings.');
+      }
+
+      const domain = new KeywordResearchTool().extractDomain(website_url.startsWith('http') ? website_url : `https://${website_url}`);
+      if (!domain) {
+        throw new Error('Please enter a valid website URL.');
+      }
+
+      const filter: RankFilter = { keywords, cluster };
+      if (location !== undefined || language !== undefined) {
+        const market = resolveMarket(location, language);
+        filter.location_code = market.location_code;
+        filter.language_code = market.language_code;
+      }
+
+      const history = new RankStore().history(domain, filter, since);
+      if (history.tracked_keywords === 0) {
+        throw new Error(`No tracked keywords match for ${domain}. Add some with track_keywords.`);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, ...history }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Rank History Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'generate_content_brief') {
+    try {
       const {
+        report,
         website_url,
-        business_type,
-      } = args as unknown as AnalysisArgs;
+        cluster_id,
+        cluster,
+        max_pages = 5,
+        cache,
+      } = (args || {}) as unknown as ContentBriefArgs;
 
-      // Read API keys from environment variables (set by DXT runtime)
-      const firecrawl_api_key = process.env.FIRECRAWL_API_KEY;
-      const perplexity_api_key = process.env.PERPLEXITY_API_KEY;
-      const dataforseo_username = process.env.DATAFORSEO_USERNAME;
-      const dataforseo_password = process.env.DATAFORSEO_PASSWORD;
+      if (!report && !website_url) {
+        throw new Error('Pass report, or website_url to use its latest saved report.');
+      }
 
-      // Validate all required parameters and environment variables
-      if (!website_url || !business_type) {
-        throw new Error('website_url and business_type are required parameters.');
+      if (cluster_id === undefined && !cluster) {
+        throw new Error('Pass cluster_id or cluster to choose the cluster.');
       }
 
-      if (!firecrawl_api_key || !perplexity_api_key || !dataforseo_username || !dataforseo_password) {
-        throw new Error('API keys are not configured. Please ensure all required API keys are set in the extension configuration: FIRECRAWL_API_KEY, PERPLEXITY_API_KEY, DATAFORSEO_USERNAME, and DATAFORSEO_PASSWORD.');
+      if (!Number.isInteger(max_pages) || max_pages < 1 || max_pages > 10) {
+        throw new Error('max_pages must be an integer between 1 and 10.');
       }
 
-      const report = await keywordTool.performAnalysis(
-        website_url,
-        business_type,
-        firecrawl_api_key,
-        perplexity_api_key,
-        dataforseo_username,
-        dataforseo_password
-      );
+      const keywordTool = new KeywordResearchTool(new ResponseCache(parseCacheMode(cache)), new CostTracker(), progress);
+      const missing = keywordTool.missingConfig({ scraper: true, llm: true });
+      if (missing.length > 0) {
+        throw new Error(`API keys are not configured. Please ensure all required API keys are set in the extension configuration: ${missing.join(', ')}.`);
+      }
+
+      let reportPath: string | undefined;
+      if (report) {
+        reportPath = report.startsWith('report://') ? reportPathFromUri(report) : resolveReportPath(report);
+      } else {
+        const domain = keywordTool.extractDomain(website_url!.startsWith('http') ? website_url! : `https://${website_url}`);
+        reportPath = filterSavedReports({ domain })[0]?.json_path;
+        if (!reportPath) {
+          throw new Error(`No saved report found for ${domain}. Run analyze_website first.`);
+        }
+      }
+      reportPath = reportPath.replace(/_formatted\.txt$/, '.json');
 
-      const { jsonFilePath, textFilePath, textReport, saveError } = await keywordTool.saveReportToFile(
-        report, 
-        website_url, 
-        business_type
+      const savedReport = loadReport(reportPath);
+      const match = savedReport.clusters.find(c =>
+        cluster_id !== undefined ? c.cluster_id === cluster_id : c.main_keyword.toLowerCase() === cluster!.toLowerCase()
       );
+      if (!match) {
+        throw new Error(`Cluster ${cluster_id !== undefined ? `#${cluster_id}` : `"${cluster}"`} not found in ${path.basename(reportPath)}. Available: ${savedReport.clusters.map(c => `#${c.cluster_id} ${c.main_keyword}`).join(', ')}`);
+      }
+
+      progress.startStep(`Analyzing top-ranking pages for "${match.main_keyword}"`);
+      const brief = await keywordTool.generateContentBrief(match, savedReport.analysis_summary.business_type, reportDomain(savedReport), max_pages);
+      progress.finishStep();
+
+      let files: { markdown_path: string | null, json_path: string | null, save_error: string | null };
+      try {
+        const { markdownPath, jsonPath } = keywordTool.saveContentBrief(brief, reportPath);
+        files = { markdown_path: markdownPath, json_path: jsonPath, save_error: null };
+      } catch (error) {
+        files = { markdown_path: null, json_path: null, save_error: error instanceof Error ? error.message : String(error) };
+      }
 
-      // Create a comprehensive response with all analysis data
+      const llm = keywordTool.getProviders().llm;
       const responseData = {
         success: true,
-        analysis_completed: true,
         metadata: {
-          website_url: website_url,
-          business_type: business_type,
-          analysis_date: report.analysis_summary.analysis_date,
+          report: reportPath,
+          cluster_id: match.cluster_id,
+          main_keyword: match.main_keyword,
+          pages_analyzed: brief.pages_analyzed.length,
+          llm_provider: `${llm.name} (${llm.model})`,
           tool_version: "1.0.0"
         },
-        analysis_summary: {
-          source_website: report.analysis_summary.source_website,
-          business_type: report.analysis_summary.business_type,
-          analysis_date: report.analysis_summary.analysis_date,
-          total_keywords_analyzed: report.analysis_summary.total_keywords_analyzed,
-          clusters_identified: report.analysis_summary.clusters_identified,
-          total_monthly_search_volume: report.analysis_summary.total_monthly_search_volume,
-          estimated_monthly_traffic_potential: report.analysis_summary.estimated_monthly_traffic_potential,
-          average_cpc: Number(report.analysis_summary.avg_cpc.toFixed(2))
-        },
-        quick_wins: report.quick_wins.map(cluster => ({
-          cluster_id: cluster.cluster_id,
-          main_keyword: cluster.main_keyword,
-          theme: cluster.theme,
-          total_search_volume: cluster.total_search_volume,
-          avg_cpc: Number(cluster.avg_cpc.toFixed(2)),
-          avg_difficulty: Math.round(cluster.avg_difficulty),
-          total_commercial_score: cluster.total_commercial_score,
-          keywords_count: cluster.keywords.length,
-          top_keywords: cluster.keywords.slice(0, 5).map(kw => ({
-            keyword: kw.keyword,
-            search_volume: kw.search_volume,
-            cpc: Number(kw.cpc.toFixed(2)),
-            difficulty: Math.round(kw.keyword_difficulty)
-          })),
-          competitor_domains: cluster.competitor_domains,
-          ai_competitors: cluster.ai_competitors || []
-        })),
-        high_value_opportunities: report.high_value.map(cluster => ({
-          cluster_id: cluster.cluster_id,
-          main_keyword: cluster.main_keyword,
-          theme: cluster.theme,
-          total_search_volume: cluster.total_search_volume,
-          avg_cpc: Number(cluster.avg_cpc.toFixed(2)),
-          avg_difficulty: Math.round(cluster.avg_difficulty),
-          total_commercial_score: cluster.total_commercial_score,
-          keywords_count: cluster.keywords.length,
-          top_keywords: cluster.keywords.slice(0, 5).map(kw => ({
-            keyword: kw.keyword,
-            search_volume: kw.search_volume,
-            cpc: Number(kw.cpc.toFixed(2)),
-            commercial_score: kw.commercial_score
-          })),
-          competitor_domains: cluster.competitor_domains,
-          ai_competitors: cluster.ai_competitors || []
-        })),
-        keyword_clusters: report.clusters.map(cluster => ({
-          cluster_id: cluster.cluster_id,
-          main_keyword: cluster.main_keyword,
-          theme: cluster.theme,
-          total_search_volume: cluster.total_search_volume,
-          avg_cpc: Number(cluster.avg_cpc.toFixed(2)),
-          avg_difficulty: Math.round(cluster.avg_difficulty),
-          total_commercial_score: cluster.total_commercial_score,
-          keywords_count: cluster.keywords.length,
-          keywords: cluster.keywords.map(kw => ({
-            keyword: kw.keyword,
-            search_volume: kw.search_volume,
-            cpc: Number(kw.cpc.toFixed(2)),
-            competition: Number((kw.competition * 100).toFixed(0)),
-            competition_level: kw.competition_level,
-            keyword_difficulty: Math.round(kw.keyword_difficulty),
-            commercial_score: kw.commercial_score,
-            is_seed: kw.is_seed,
-            serp_urls: kw.serp_urls.map(url => ({
-              url: url.url,
-              title: url.title,
-              domain: url.domain,
-              position: url.position
-            }))
-          })),
-          competitor_domains: cluster.competitor_domains,
-          ai_competitors: cluster.ai_competitors || []
-        })),
-        competitors: {
-          all_competitors: report.competitors,
-          total_count: report.competitors.length,
-          serp_competitors: [...new Set(report.clusters.flatMap(c => c.competitor_domains))].filter(d => d && d.length > 0),
-          ai_competitors: [...new Set(report.clusters.flatMap(c => c.ai_competitors || []))].filter(d => d && d.length > 0),
-          by_cluster: report.clusters.map(cluster => ({
-            cluster: cluster.main_keyword,
-            serp_competitors: cluster.competitor_domains,
-            ai_competitors: cluster.ai_competitors || []
-          })).filter(c => c.serp_competitors.length > 0 || c.ai_competitors.length > 0)
-        },
-        action_plan: {
-          immediate_actions: [
-            "Target quick win keywords with low competition (difficulty < 40)",
-            "Create targeted landing pages for main keyword clusters",
-            "Analyze competitor content strategies for top domains",
-            "Optimize existing pages for high-volume, low-competition keywords",
-            "Set up keyword tracking for priority clusters"
-          ],
-          medium_term_goals: [
-            "Build comprehensive content for high-value clusters",
-            "Develop internal linking strategy between related keywords",
-            "Start building backlinks to target pages",
-            "Create content hubs around main themes",
-            "Implement schema markup for better SERP visibility"
-          ],
-          long_term_strategy: [
-            "Build domain authority through high-quality content",
-            "Target high-difficulty, high-value keywords",
-            "Expand into related keyword opportunities",
-            "Develop comprehensive competitor analysis and positioning",
-            "Scale content production for semantic keyword coverage"
-          ]
-        },
-        performance_metrics: {
-          quick_wins_available: report.quick_wins.length,
-          high_value_opportunities: report.high_value.length,
-          total_potential_traffic: report.analysis_summary.estimated_monthly_traffic_potential,
-          average_cpc_across_all: Number(report.analysis_summary.avg_cpc.toFixed(2)),
-          total_commercial_value: report.clusters.reduce((sum, c) => sum + c.total_commercial_score, 0)
-        },
-        files: {
-          json_report_path: jsonFilePath || null,
-          text_report_path: textFilePath || null,
-          files_saved: !!(jsonFilePath && textFilePath),
-          save_error: saveError || null
+        brief: brief,
+        markdown: briefToMarkdown(brief),
+        files: files,
+        failures: keywordTool.getFailures(),
+        cost: keywordTool.getCostBreakdown(),
+        cache: keywordTool.getCacheStats()
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(responseData, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Content Brief Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'get_keyword_metrics') {
+    try {
+      const {
+        keywords,
+        business_type = 'Other',
+        location,
+        language,
+        include_serp = true,
+        cluster = false,
+        cache,
+        priority,
+        scoring_profile,
+      } = args as unknown as KeywordMetricsArgs;
+
+      if (!Array.isArray(keywords) || keywords.length === 0) {
+        throw new Error('keywords must be a non-empty array of strings.');
+      }
+
+      if (keywords.length > 1000) {
+        throw new Error('A maximum of 1000 keywords can be looked up per call.');
+      }
+
+      const market = resolveMarket(location, language);
+      const keywordTool = new KeywordResearchTool(new ResponseCache(parseCacheMode(cache)), new CostTracker(), progress, parseDataPriority(priority), parseScoringProfile(scoring_profile));
+      const missing = keywordTool.missingConfig({ keywordData: true });
+
+      if (missing.length > 0) {
+        throw new Error(`Keyword data credentials are not configured. Please ensure ${missing.join(' and ')} are set in the extension configuration.`);
+      }
+
+      const clusterOptions = parseClusterOptions(args);
+
+      progress.startStep('Fetching keyword metrics and SERPs');
+      const result = await keywordTool.getKeywordListData(
+        keywords,
+        business_type,
+        {
+          market,
+          includeSerp: include_serp,
+          serpDepth: cluster && clusterOptions.mode === 'serp_overlap' ? 10 : 5
         }
+      );
+      progress.finishStep();
+
+      const formatKeyword = (kw: KeywordData) => ({
+        keyword: kw.keyword,
+        search_volume: kw.search_volume,
+        cpc: Number(kw.cpc.toFixed(2)),
+        competition: Number((kw.competition * 100).toFixed(0)),
+        competition_level: kw.competition_level,
+        keyword_difficulty: Math.round(kw.keyword_difficulty),
+        commercial_score: kw.commercial_score,
+        is_seed: kw.is_seed,
+        source: kw.source,
+        intent: kw.intent,
+        serp_features: kw.serp_features,
+        serp_urls: kw.serp_urls
+      });
+
+      const responseData: Record<string, any> = {
+        success: true,
+        metadata: {
+          business_type: business_type,
+          location: market.location_name,
+          location_code: market.location_code,
+          language: market.language_name,
+          language_code: market.language_code,
+          currency: market.currency,
+          clustering_mode: cluster ? (clusterOptions.mode || 'word_overlap') : null,
+          requested_keywords: keywords.length,
+          keywords_with_data: result.keywords.length,
+          keywords_without_data: result.missing,
+          scoring_profile: keywordTool.scoring.name,
+          tool_version: "1.0.0"
+        },
+        keywords: result.keywords.map(formatKeyword),
+        cost: keywordTool.getCostBreakdown(),
+        failures: keywordTool.getFailures(),
+        cache: keywordTool.getCacheStats()
       };
 
+      if (cluster) {
+        // createClusters sorts in place, so hand it a copy
+        const clusters = keywordTool.createClusters([...result.keywords], clusterOptions);
+        responseData.keyword_clusters = clusters.map(c => ({
+          cluster_id: c.cluster_id,
+          main_keyword: c.main_keyword,
+          theme: c.theme,
+          total_search_volume: c.total_search_volume,
+          avg_cpc: Number(c.avg_cpc.toFixed(2)),
+          avg_difficulty: Math.round(c.avg_difficulty),
+          total_commercial_score: c.total_commercial_score,
+          keywords_count: c.keywords.length,
+          keywords: c.keywords.map(kw => kw.keyword),
+          competitor_domains: c.competitor_domains
+        }));
+      }
+
       return {
         content: [
           {
@@ -1310,20 +3751,285 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         content: [
           {
             type: 'text',
-            text: `❌ **Analysis Failed:** ${error instanceof Error ? error.message : String(error)}
+            text: `❌ **Keyword Lookup Failed:** ${error instanceof Error ? error.message : String(error)}
 
 Please check:
-- All API keys are correct and valid
-- Website URL is accessible 
+- DataForSEO credentials are correct and valid
 - You have sufficient API credits
-- Network connectivity
+- Network connectivity`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'compare_reports') {
+    try {
+      const {
+        previous_report,
+        current_report,
+        domain,
+      } = (args || {}) as unknown as CompareReportsArgs;
+
+      let previousPath: string;
+      let currentPath: string;
+
+      if (previous_report && current_report) {
+        previousPath = resolveReportPath(previous_report);
+        currentPath = resolveReportPath(current_report);
+      } else if (domain) {
+        [previousPath, currentPath] = findLatestReportPair(domain);
+      } else {
+        throw new Error('Provide either previous_report and current_report, or a domain to compare its latest two reports.');
+      }
+
+      const diff = compareReports(loadReport(previousPath), loadReport(currentPath), previousPath, currentPath);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(diff, null, 2),
+          },
+          {
+            type: 'text',
+            text: formatReportDiff(diff),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Report Comparison Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'list_reports') {
+    try {
+      const {
+        domain,
+        business_type,
+        since,
+        until,
+        limit = 50,
+      } = (args || {}) as unknown as ListReportsArgs;
+
+      const reports = filterSavedReports({ domain, business_type, since, until });
+
+      const responseData = {
+        reports_dir: getReportsDir(),
+        total_count: reports.length,
+        reports: reports.slice(0, limit).map(entry => ({
+          ...entry,
+          uri: reportResourceUri(entry.json_path),
+          text_uri: entry.text_path ? reportResourceUri(entry.text_path) : null
+        }))
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(responseData, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Listing Reports Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'get_report') {
+    try {
+      const {
+        report,
+        cluster_id,
+        cluster,
+        format = 'json',
+      } = (args || {}) as unknown as GetReportArgs;
+
+      if (!report) {
+        throw new Error('report is a required parameter.');
+      }
+
+      const reportPath = report.startsWith('report://') ? reportPathFromUri(report) : resolveReportPath(report);
+
+      if (cluster_id === undefined && !cluster && format === 'text') {
+        const textPath = reportPath.replace(/(_formatted)?\.(json|txt)$/, '_formatted.txt');
+        if (!fs.existsSync(textPath)) {
+          throw new Error(`No formatted text report found for ${report}.`);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: fs.readFileSync(textPath, 'utf8'),
+            },
+          ],
+        };
+      }
+
+      const savedReport = loadReport(reportPath.replace(/_formatted\.txt$/, '.json'));
+      let result: unknown = savedReport;
+
+      if (cluster_id !== undefined || cluster) {
+        const match = savedReport.clusters.find(c =>
+          cluster_id !== undefined ? c.cluster_id === cluster_id : c.main_keyword.toLowerCase() === cluster!.toLowerCase()
+        );
+        if (!match) {
+          throw new Error(`Cluster ${cluster_id !== undefined ? `#${cluster_id}` : `"${cluster}"`} not found in ${report}. Available: ${savedReport.clusters.map(c => `#${c.cluster_id} ${c.main_keyword}`).join(', ')}`);
+        }
+        result = {
+          metadata: savedReport.metadata,
+          analysis_summary: savedReport.analysis_summary,
+          cluster: match
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Loading Report Failed:** ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+      };
+    }
+  }
+
+  if (name === 'keyword_gap') {
+    try {
+      const {
+        website_url,
+        business_type = 'Other',
+        competitors,
+        report,
+        max_competitors,
+        min_competitors,
+        keywords_per_domain,
+        location,
+        language,
+        cache,
+        scoring_profile,
+      } = (args || {}) as unknown as KeywordGapArgs;
+
+      if (!website_url) {
+        throw new Error('website_url is a required parameter.');
+      }
+
+      if (competitors !== undefined && (!Array.isArray(competitors) || competitors.some(c => typeof c !== 'string'))) {
+        throw new Error('competitors must be an array of domains.');
+      }
+
+      if (keywords_per_domain !== undefined && (!Number.isInteger(keywords_per_domain) || keywords_per_domain < 10 || keywords_per_domain > 1000)) {
+        throw new Error('keywords_per_domain must be an integer between 10 and 1000.');
+      }
+
+      const market = resolveMarket(location, language);
+      const gapOptions = parseKeywordGapOptions(max_competitors, min_competitors);
+      gapOptions.keywordsPerDomain = keywords_per_domain;
+
+      const keywordTool = new KeywordResearchTool(new ResponseCache(parseCacheMode(cache)), new CostTracker(), progress, 'live', parseScoringProfile(scoring_profile));
+      const missing = keywordTool.missingConfig({ keywordData: true });
+
+      if (missing.length > 0) {
+        throw new Error(`Keyword data credentials are not configured. Please ensure ${missing.join(' and ')} are set in the extension configuration.`);
+      }
+
+      const ownDomain = keywordTool.extractDomain(website_url.startsWith('http') ? website_url : `https://${website_url}`);
+      if (!ownDomain) {
+        throw new Error('Please enter a valid website URL.');
+      }
+
+      const maxCompetitors = gapOptions.competitors || 5;
+      let competitorDomains: string[];
+      let competitorSource: string;
+      if (competitors && competitors.length > 0) {
+        competitorDomains = [...new Set(competitors
+          .map(c => keywordTool.extractDomain(c.startsWith('http') ? c : `https://${c}`))
+          .filter(domain => domain && !keywordTool.belongsToDomain(domain, ownDomain)))]
+          .slice(0, maxCompetitors);
+        competitorSource = 'user';
+      } else {
+        const reportPath = report ? resolveReportPath(report) : filterSavedReports({ domain: ownDomain })[0]?.json_path;
+        if (!reportPath) {
+          throw new Error(`No competitors given and no saved report found for ${ownDomain}. Pass competitors or run analyze_website first.`);
+        }
+        competitorDomains = keywordTool.topCompetitorDomains(loadReport(reportPath).clusters, ownDomain, maxCompetitors);
+        competitorSource = reportPath;
+      }
+
+      if (competitorDomains.length === 0) {
+        throw new Error('No competitor domains to compare against.');
+      }
+
+      progress.startStep(`Comparing ranked keywords with ${competitorDomains.length} competitors`);
+      const gap = await keywordTool.analyzeKeywordGap(ownDomain, competitorDomains, business_type, {
+        market,
+        gap: gapOptions,
+        clustering: parseClusterOptions(args)
+      });
+      progress.finishStep();
+
+      const responseData = {
+        success: true,
+        metadata: {
+          business_type: business_type,
+          location: market.location_name,
+          location_code: market.location_code,
+          language: market.language_name,
+          language_code: market.language_code,
+          currency: market.currency,
+          competitor_source: competitorSource,
+          scoring_profile: keywordTool.scoring.name,
+          tool_version: "1.0.0"
+        },
+        ...formatKeywordGap(gap),
+        failures: keywordTool.getFailures(),
+        cost: keywordTool.getCostBreakdown(),
+        cache: keywordTool.getCacheStats()
+      };
 
-**Expected API Costs per analysis:**
-- **Firecrawl**: ~$0.01 per website scrape
-- **Perplexity**: ~$0.02 per keyword generation
-- **DataForSEO**: ~$0.50-1.00 per analysis
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(responseData, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Keyword Gap Failed:** ${error instanceof Error ? error.message : String(error)}
 
-**Total per analysis: ~$0.53-1.03**`,
+Please check:
+- DataForSEO credentials are correct and your plan includes DataForSEO Labs
+- You have sufficient API credits
+- Network connectivity`,
           },
         ],
       };
@@ -1333,6 +4039,59 @@ Please check:
   throw new Error(`Unknown tool: ${name}`);
 });
 
+// Expose saved reports as resources
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const reports = listSavedReports();
+
+  return {
+    resources: reports.flatMap(entry => {
+      const date = entry.generated_at ? entry.generated_at.split('T')[0] : 'undated';
+      const metadata = {
+        domain: entry.domain,
+        business_type: entry.business_type,
+        generated_at: entry.generated_at
+      };
+
+      const resources = [
+        {
+          uri: reportResourceUri(entry.json_path),
+          name: `${entry.domain || entry.website_url} keyword report (${date})`,
+          description: `${entry.business_type} keyword research for ${entry.website_url}, generated ${entry.generated_at ?? 'at an unknown date'} (JSON)`,
+          mimeType: 'application/json',
+          metadata
+        }
+      ];
+
+      if (entry.text_path) {
+        resources.push({
+          uri: reportResourceUri(entry.text_path),
+          name: `${entry.domain || entry.website_url} keyword report (${date}, formatted)`,
+          description: `${entry.business_type} keyword research for ${entry.website_url}, generated ${entry.generated_at ?? 'at an unknown date'} (formatted text)`,
+          mimeType: 'text/plain',
+          metadata
+        });
+      }
+
+      return resources;
+    }),
+  };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  const filePath = reportPathFromUri(uri);
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: filePath.endsWith('.json') ? 'application/json' : 'text/plain',
+        text: fs.readFileSync(filePath, 'utf8'),
+      },
+    ],
+  };
+});
+
 // Start the server
 async function main() {
   const transport = new StdioServerTransport();
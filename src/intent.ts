@@ -0,0 +1,161 @@
+// Search-intent classification from whole-word keyword modifiers and SERP feature signals
+import { SearchIntent, KeywordIntent } from './types.js';
+
+interface IntentRule {
+  intent: SearchIntent;
+  weight: number;
+}
+
+// Whole words or phrases (matched on word boundaries) and the intent evidence they carry
+const PHRASE_RULES: Record<string, IntentRule[]> = {
+  // Transactional
+  'buy': [{ intent: 'transactional', weight: 0.9 }],
+  'purchase': [{ intent: 'transactional', weight: 0.9 }],
+  'order': [{ intent: 'transactional', weight: 0.7 }],
+  'for sale': [{ intent: 'transactional', weight: 0.9 }],
+  'shop': [{ intent: 'transactional', weight: 0.6 }],
+  'coupon': [{ intent: 'transactional', weight: 0.8 }],
+  'coupons': [{ intent: 'transactional', weight: 0.8 }],
+  'discount': [{ intent: 'transactional', weight: 0.7 }],
+  'deal': [{ intent: 'transactional', weight: 0.6 }],
+  'deals': [{ intent: 'transactional', weight: 0.6 }],
+  'subscribe': [{ intent: 'transactional', weight: 0.6 }],
+  'free trial': [{ intent: 'transactional', weight: 0.7 }],
+  'download': [{ intent: 'transactional', weight: 0.6 }],
+  'book': [{ intent: 'transactional', weight: 0.5 }],
+  'booking': [{ intent: 'transactional', weight: 0.6 }],
+  'hire': [{ intent: 'transactional', weight: 0.8 }],
+  'rent': [{ intent: 'transactional', weight: 0.7 }],
+  'rental': [{ intent: 'transactional', weight: 0.7 }],
+  'quote': [{ intent: 'transactional', weight: 0.6 }],
+  'price': [{ intent: 'transactional', weight: 0.5 }, { intent: 'commercial', weight: 0.5 }],
+  'prices': [{ intent: 'transactional', weight: 0.5 }, { intent: 'commercial', weight: 0.5 }],
+  'pricing': [{ intent: 'transactional', weight: 0.5 }, { intent: 'commercial', weight: 0.5 }],
+  'cost': [{ intent: 'transactional', weight: 0.4 }, { intent: 'commercial', weight: 0.5 }],
+  'costs': [{ intent: 'transactional', weight: 0.4 }, { intent: 'commercial', weight: 0.5 }],
+  'cheap': [{ intent: 'transactional', weight: 0.6 }, { intent: 'commercial', weight: 0.3 }],
+  'cheapest': [{ intent: 'transactional', weight: 0.6 }, { intent: 'commercial', weight: 0.4 }],
+  // Commercial investigation
+  'best': [{ intent: 'commercial', weight: 0.8 }],
+  'top': [{ intent: 'commercial', weight: 0.7 }],
+  'review': [{ intent: 'commercial', weight: 0.8 }],
+  'reviews': [{ intent: 'commercial', weight: 0.8 }],
+  'vs': [{ intent: 'commercial', weight: 0.8 }],
+  'versus': [{ intent: 'commercial', weight: 0.8 }],
+  'compare': [{ intent: 'commercial', weight: 0.8 }],
+  'comparison': [{ intent: 'commercial', weight: 0.8 }],
+  'alternative': [{ intent: 'commercial', weight: 0.8 }],
+  'alternatives': [{ intent: 'commercial', weight: 0.8 }],
+  'rating': [{ intent: 'commercial', weight: 0.6 }],
+  'ratings': [{ intent: 'commercial', weight: 0.6 }],
+  'affordable': [{ intent: 'commercial', weight: 0.5 }, { intent: 'transactional', weight: 0.3 }],
+  'service': [{ intent: 'commercial', weight: 0.5 }],
+  'services': [{ intent: 'commercial', weight: 0.5 }],
+  'company': [{ intent: 'commercial', weight: 0.5 }],
+  'companies': [{ intent: 'commercial', weight: 0.5 }],
+  'agency': [{ intent: 'commercial', weight: 0.5 }],
+  'provider': [{ intent: 'commercial', weight: 0.5 }],
+  'providers': [{ intent: 'commercial', weight: 0.5 }],
+  // Informational
+  'how to': [{ intent: 'informational', weight: 0.9 }],
+  'what is': [{ intent: 'informational', weight: 0.9 }],
+  'what are': [{ intent: 'informational', weight: 0.9 }],
+  'how': [{ intent: 'informational', weight: 0.7 }],
+  'what': [{ intent: 'informational', weight: 0.7 }],
+  'why': [{ intent: 'informational', weight: 0.8 }],
+  'when': [{ intent: 'informational', weight: 0.6 }],
+  'who': [{ intent: 'informational', weight: 0.6 }],
+  'guide': [{ intent: 'informational', weight: 0.7 }],
+  'tutorial': [{ intent: 'informational', weight: 0.8 }],
+  'tips': [{ intent: 'informational', weight: 0.6 }],
+  'ideas': [{ intent: 'informational', weight: 0.5 }],
+  'examples': [{ intent: 'informational', weight: 0.6 }],
+  'meaning': [{ intent: 'informational', weight: 0.8 }],
+  'definition': [{ intent: 'informational', weight: 0.8 }],
+  'learn': [{ intent: 'informational', weight: 0.6 }],
+  'diy': [{ intent: 'informational', weight: 0.6 }],
+  'benefits': [{ intent: 'informational', weight: 0.5 }],
+  // Navigational
+  'login': [{ intent: 'navigational', weight: 0.9 }],
+  'log in': [{ intent: 'navigational', weight: 0.9 }],
+  'sign in': [{ intent: 'navigational', weight: 0.9 }],
+  'sign up': [{ intent: 'navigational', weight: 0.5 }, { intent: 'transactional', weight: 0.4 }],
+  'account': [{ intent: 'navigational', weight: 0.5 }],
+  'official': [{ intent: 'navigational', weight: 0.7 }],
+  'website': [{ intent: 'navigational', weight: 0.6 }],
+  'homepage': [{ intent: 'navigational', weight: 0.7 }],
+  'contact': [{ intent: 'navigational', weight: 0.6 }],
+  'customer service': [{ intent: 'navigational', weight: 0.6 }],
+  // Local
+  'near me': [{ intent: 'local', weight: 0.95 }],
+  'nearby': [{ intent: 'local', weight: 0.8 }],
+  'near': [{ intent: 'local', weight: 0.5 }],
+  'local': [{ intent: 'local', weight: 0.6 }],
+  'open now': [{ intent: 'local', weight: 0.8 }],
+  'directions': [{ intent: 'local', weight: 0.7 }],
+  'hours': [{ intent: 'local', weight: 0.4 }]
+};
+
+// DataForSEO SERP item types and the intent their presence suggests
+const SERP_FEATURE_RULES: Record<string, IntentRule[]> = {
+  local_pack: [{ intent: 'local', weight: 0.8 }],
+  map: [{ intent: 'local', weight: 0.6 }],
+  hotels_pack: [{ intent: 'local', weight: 0.5 }, { intent: 'transactional', weight: 0.4 }],
+  shopping: [{ intent: 'transactional', weight: 0.8 }],
+  popular_products: [{ intent: 'transactional', weight: 0.7 }],
+  commercial_units: [{ intent: 'transactional', weight: 0.7 }],
+  paid: [{ intent: 'transactional', weight: 0.3 }, { intent: 'commercial', weight: 0.3 }],
+  answer_box: [{ intent: 'informational', weight: 0.7 }],
+  featured_snippet: [{ intent: 'informational', weight: 0.5 }],
+  people_also_ask: [{ intent: 'informational', weight: 0.4 }],
+  knowledge_graph: [{ intent: 'informational', weight: 0.3 }, { intent: 'navigational', weight: 0.3 }],
+  video: [{ intent: 'informational', weight: 0.3 }],
+  top_stories: [{ intent: 'informational', weight: 0.3 }]
+};
+
+// Labels below this confidence are dropped
+const MIN_CONFIDENCE = 0.3;
+
+// Longest phrases first, so that "how to" is consumed before "how" can match again
+const PHRASES_BY_LENGTH = Object.keys(PHRASE_RULES).sort((a, b) => b.length - a.length);
+
+export function classifyIntent(keyword: string, serpItemTypes: string[] = []): KeywordIntent {
+  const lower = (keyword || '').toLowerCase();
+  // Matching on padded whole words means "laptop" is not "top" and "border" is not "order"
+  let padded = ` ${lower.replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+
+  const evidence: { rule: IntentRule, signal: string }[] = [];
+  for (const phrase of PHRASES_BY_LENGTH) {
+    if (padded.includes(` ${phrase} `)) {
+      PHRASE_RULES[phrase].forEach(rule => evidence.push({ rule, signal: phrase }));
+      padded = padded.split(` ${phrase} `).join('  ');
+    }
+  }
+
+  // A bare domain name ("example.com") is a navigational query
+  if (/\b[a-z0-9-]+\.(com|net|org|io|co|app)\b/.test(lower)) {
+    evidence.push({ rule: { intent: 'navigational', weight: 0.8 }, signal: 'domain name' });
+  }
+
+  for (const type of new Set(serpItemTypes)) {
+    (SERP_FEATURE_RULES[type] || []).forEach(rule => evidence.push({ rule, signal: `serp:${type}` }));
+  }
+
+  // Independent pieces of evidence combine as 1 - (1 - w1)(1 - w2)...
+  const remaining = new Map<SearchIntent, number>();
+  evidence.forEach(({ rule }) => {
+    remaining.set(rule.intent, (remaining.get(rule.intent) ?? 1) * (1 - rule.weight));
+  });
+
+  const labels = [...remaining.entries()]
+    .map(([intent, rest]) => ({ intent, confidence: Number((1 - rest).toFixed(2)) }))
+    .filter(label => label.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return {
+    primary: labels[0]?.intent ?? null,
+    confidence: labels[0]?.confidence ?? 0,
+    labels,
+    signals: [...new Set(evidence.map(e => e.signal))]
+  };
+}
@@ -0,0 +1,151 @@
+// Asynchronous analysis jobs: a status file plus one checkpoint per completed pipeline step, so that a failed
+// or interrupted job resumes from its last completed step instead of paying for every API call again
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { CacheStats } from './cache.js';
+import { CostBreakdown } from './types.js';
+
+// Pipeline steps whose output is checkpointed, in the order performAnalysis runs them
+export type CheckpointStep = 'scrape' | 'seeds' | 'metrics' | 'related' | 'expansion' | 'serp' | 'clusters' | 'competitors' | 'keyword_gap' | 'report';
+
+export const CHECKPOINT_STEPS: CheckpointStep[] = ['scrape', 'seeds', 'metrics', 'related', 'expansion', 'serp', 'clusters', 'competitors', 'keyword_gap', 'report'];
+
+// "interrupted" is never stored: it is reported for a job whose file says running but that no longer runs in this process
+export type JobStatus = 'running' | 'completed' | 'failed' | 'interrupted';
+
+export interface JobProgress {
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export interface ReportFiles {
+  json_report_path: string | null;
+  text_report_path: string | null;
+  keywords_csv_path: string | null;
+  clusters_csv_path: string | null;
+  html_report_path: string | null;
+  save_error: string | null;
+}
+
+export interface AnalysisJob {
+  job_id: string;
+  status: JobStatus;
+  website_url: string;
+  business_type: string;
+  // The analyze_website arguments the job was started with; parsed again on every (re)run
+  args: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+  attempts: number;
+  progress: JobProgress | null;
+  error: string | null;
+  // Written when the job completes
+  files: ReportFiles | null;
+  cache: CacheStats | null;
+  // Spending across all attempts, updated as the job runs; a resumed job starts its budget from it. Absent from older job files
+  cost?: CostBreakdown | null;
+}
+
+// Reads and writes the output of completed steps; performAnalysis skips any step that already has one
+export interface Checkpoints {
+  load<T>(step: CheckpointStep): T | undefined;
+  save(step: CheckpointStep, data: unknown): void;
+}
+
+// A step's output and whether it is final: read back from a checkpoint, or run to completion on final inputs
+export interface CheckpointedStep<T> {
+  result: T;
+  complete: boolean;
+}
+
+export function getJobsDir(): string {
+  return process.env.JOBS_DIR || path.join(process.cwd(), 'jobs');
+}
+
+// Write to a temporary file first so that a crash mid-write never leaves a truncated checkpoint behind
+function writeJsonAtomic(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data), 'utf8');
+  fs.renameSync(tempPath, filePath);
+}
+
+class JobCheckpoints implements Checkpoints {
+  constructor(private jobDir: string) {}
+
+  private stepPath(step: CheckpointStep): string {
+    return path.join(this.jobDir, `${step}.json`);
+  }
+
+  load<T>(step: CheckpointStep): T | undefined {
+    const filePath = this.stepPath(step);
+    if (!fs.existsSync(filePath)) return undefined;
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')).data as T;
+    } catch {
+      // An unreadable checkpoint means the step runs again
+      return undefined;
+    }
+  }
+
+  save(step: CheckpointStep, data: unknown): void {
+    writeJsonAtomic(this.stepPath(step), { step, saved_at: new Date().toISOString(), data: data ?? null });
+  }
+}
+
+export class JobStore {
+  constructor(private jobsDir: string = getJobsDir()) {}
+
+  private jobDir(jobId: string): string {
+    // Job ids become directory names, so anything but the generated format is rejected
+    if (!/^job_[a-z0-9_]+$/i.test(jobId)) {
+      throw new Error(`Invalid job id: ${jobId}`);
+    }
+    return path.join(this.jobsDir, jobId);
+  }
+
+  create(websiteUrl: string, businessType: string, args: Record<string, unknown>): AnalysisJob {
+    const now = new Date();
+    const job: AnalysisJob = {
+      job_id: `job_${now.toISOString().replace(/\D/g, '').slice(0, 14)}_${randomBytes(4).toString('hex')}`,
+      status: 'running',
+      website_url: websiteUrl,
+      business_type: businessType,
+      args: args,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      attempts: 0,
+      progress: null,
+      error: null,
+      files: null,
+      cache: null,
+      cost: null
+    };
+    this.save(job);
+    return job;
+  }
+
+  load(jobId: string): AnalysisJob {
+    const filePath = path.join(this.jobDir(jobId), 'job.json');
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Unknown job: ${jobId}`);
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as AnalysisJob;
+  }
+
+  save(job: AnalysisJob): void {
+    job.updated_at = new Date().toISOString();
+    writeJsonAtomic(path.join(this.jobDir(job.job_id), 'job.json'), job);
+  }
+
+  checkpoints(jobId: string): Checkpoints {
+    return new JobCheckpoints(this.jobDir(jobId));
+  }
+
+  completedSteps(jobId: string): CheckpointStep[] {
+    const jobDir = this.jobDir(jobId);
+    return CHECKPOINT_STEPS.filter(step => fs.existsSync(path.join(jobDir, `${step}.json`)));
+  }
+}
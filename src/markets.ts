@@ -0,0 +1,140 @@
+// Market (location + language + currency) resolution for DataForSEO calls
+
+export interface Market {
+  location_code: number;
+  location_name: string;
+  language_code: string;
+  language_name: string;
+  currency: string;
+}
+
+interface LocationEntry {
+  code: number;
+  name: string;
+  aliases: string[];
+  language: string;
+  currency: string;
+}
+
+// DataForSEO location codes for the markets we research most often
+const LOCATIONS: LocationEntry[] = [
+  { code: 2840, name: 'United States', aliases: ['us', 'usa', 'united states of america', 'america'], language: 'en', currency: 'USD' },
+  { code: 2826, name: 'United Kingdom', aliases: ['uk', 'gb', 'great britain', 'britain', 'england'], language: 'en', currency: 'GBP' },
+  { code: 2124, name: 'Canada', aliases: ['ca'], language: 'en', currency: 'CAD' },
+  { code: 2036, name: 'Australia', aliases: ['au'], language: 'en', currency: 'AUD' },
+  { code: 2554, name: 'New Zealand', aliases: ['nz'], language: 'en', currency: 'NZD' },
+  { code: 2372, name: 'Ireland', aliases: ['ie'], language: 'en', currency: 'EUR' },
+  { code: 2356, name: 'India', aliases: ['in'], language: 'en', currency: 'INR' },
+  { code: 2276, name: 'Germany', aliases: ['de', 'deutschland'], language: 'de', currency: 'EUR' },
+  { code: 2040, name: 'Austria', aliases: ['at', 'österreich'], language: 'de', currency: 'EUR' },
+  { code: 2756, name: 'Switzerland', aliases: ['ch', 'schweiz'], language: 'de', currency: 'CHF' },
+  { code: 2250, name: 'France', aliases: ['fr'], language: 'fr', currency: 'EUR' },
+  { code: 2056, name: 'Belgium', aliases: ['be'], language: 'nl', currency: 'EUR' },
+  { code: 2528, name: 'Netherlands', aliases: ['nl', 'holland'], language: 'nl', currency: 'EUR' },
+  { code: 2724, name: 'Spain', aliases: ['es', 'españa'], language: 'es', currency: 'EUR' },
+  { code: 2484, name: 'Mexico', aliases: ['mx', 'méxico'], language: 'es', currency: 'MXN' },
+  { code: 2380, name: 'Italy', aliases: ['it', 'italia'], language: 'it', currency: 'EUR' },
+  { code: 2620, name: 'Portugal', aliases: ['pt'], language: 'pt', currency: 'EUR' },
+  { code: 2076, name: 'Brazil', aliases: ['br', 'brasil'], language: 'pt', currency: 'BRL' },
+  { code: 2752, name: 'Sweden', aliases: ['se', 'sverige'], language: 'sv', currency: 'SEK' },
+  { code: 2208, name: 'Denmark', aliases: ['dk', 'danmark'], language: 'da', currency: 'DKK' },
+  { code: 2578, name: 'Norway', aliases: ['no', 'norge'], language: 'no', currency: 'NOK' },
+  { code: 2616, name: 'Poland', aliases: ['pl', 'polska'], language: 'pl', currency: 'PLN' },
+  { code: 2392, name: 'Japan', aliases: ['jp'], language: 'ja', currency: 'JPY' }
+];
+
+const LANGUAGES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  nl: 'Dutch',
+  es: 'Spanish',
+  it: 'Italian',
+  pt: 'Portuguese',
+  sv: 'Swedish',
+  da: 'Danish',
+  no: 'Norwegian',
+  pl: 'Polish',
+  ja: 'Japanese'
+};
+
+export const DEFAULT_MARKET: Market = {
+  location_code: 2840,
+  location_name: 'United States',
+  language_code: 'en',
+  language_name: 'English',
+  currency: 'USD'
+};
+
+export const SUPPORTED_LOCATIONS = LOCATIONS.map(entry => entry.name);
+export const SUPPORTED_LANGUAGES = Object.values(LANGUAGES);
+
+function findLocation(location: string | number): LocationEntry | undefined {
+  const value = String(location).trim().toLowerCase();
+  if (/^\d+$/.test(value)) {
+    return LOCATIONS.find(entry => entry.code === Number(value));
+  }
+  return LOCATIONS.find(entry => entry.name.toLowerCase() === value || entry.aliases.includes(value));
+}
+
+function findLanguage(language: string): string | undefined {
+  const value = language.trim().toLowerCase();
+  if (LANGUAGES[value]) return value;
+  // Accept locale-style codes such as "en-GB" or "pt_BR"
+  const prefix = value.split(/[-_]/)[0];
+  if (LANGUAGES[prefix]) return prefix;
+  return Object.keys(LANGUAGES).find(code => LANGUAGES[code].toLowerCase() === value);
+}
+
+// Resolve user-supplied location/language (names or codes) into a DataForSEO market
+export function resolveMarket(location?: string | number, language?: string): Market {
+  let market: Market = { ...DEFAULT_MARKET };
+
+  if (location !== undefined && location !== null && String(location).trim() !== '') {
+    const entry = findLocation(location);
+    if (entry) {
+      market = {
+        location_code: entry.code,
+        location_name: entry.name,
+        language_code: entry.language,
+        language_name: LANGUAGES[entry.language],
+        currency: entry.currency
+      };
+    } else if (/^\d+$/.test(String(location).trim())) {
+      // Unknown numeric code: pass it through to DataForSEO as-is
+      market = {
+        ...market,
+        location_code: Number(String(location).trim()),
+        location_name: `Location ${String(location).trim()}`
+      };
+    } else {
+      throw new Error(`Unknown location "${location}". Use a DataForSEO location code or one of: ${SUPPORTED_LOCATIONS.join(', ')}.`);
+    }
+  }
+
+  if (language !== undefined && language !== null && language.trim() !== '') {
+    const code = findLanguage(language);
+    if (!code) {
+      throw new Error(`Unknown language "${language}". Use an ISO 639-1 code or one of: ${SUPPORTED_LANGUAGES.join(', ')}.`);
+    }
+    market.language_code = code;
+    market.language_name = LANGUAGES[code];
+  }
+
+  return market;
+}
+
+// Format a monetary amount in the market's currency (e.g. "$1.20", "£1.20", "€1.20")
+export function formatCurrency(amount: number, currency: string = DEFAULT_MARKET.currency): string {
+  const value = isNaN(amount) ? 0 : amount;
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2
+    }).format(value);
+  } catch {
+    return `${value.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,64 @@
+// MCP progress notifications and client cancellation for long-running tool calls
+
+// Sends one notifications/progress message; progress only ever increases
+export type ProgressCallback = (progress: number, total: number, message: string) => void;
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled by the client.');
+    this.name = 'CancelledError';
+  }
+}
+
+// Progress is counted in pipeline steps: the index of the current step, plus a fraction while it reports per-item progress.
+// A step that is abandoned (e.g. out of budget) simply never finishes; the next startStep moves on.
+export class ProgressReporter {
+  private totalSteps = 1;
+  private stepIndex = -1;
+  private stepLabel = '';
+  private lastProgress = 0;
+
+  constructor(private notify?: ProgressCallback, readonly signal?: AbortSignal) {}
+
+  setTotalSteps(totalSteps: number): void {
+    this.totalSteps = Math.max(1, totalSteps);
+  }
+
+  startStep(label: string): void {
+    this.throwIfCancelled();
+    this.stepIndex = Math.min(this.stepIndex + 1, this.totalSteps - 1);
+    this.stepLabel = label;
+    this.send(this.stepIndex, `Started: ${label}`);
+  }
+
+  // Per-item progress inside the current step, e.g. the 4th of 15 SERPs
+  advance(done: number, of: number, detail: string): void {
+    this.throwIfCancelled();
+    const fraction = of > 0 ? Math.min(done / of, 1) : 0;
+    this.send(Math.max(0, this.stepIndex) + fraction, `${this.stepLabel}: ${detail} (${done}/${of})`);
+  }
+
+  finishStep(): void {
+    this.send(this.stepIndex + 1, `Finished: ${this.stepLabel}`);
+  }
+
+  get cancelled(): boolean {
+    return !!this.signal?.aborted;
+  }
+
+  throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new CancelledError();
+    }
+  }
+
+  private send(progress: number, message: string): void {
+    if (!this.notify || progress < this.lastProgress) return;
+    this.lastProgress = progress;
+    try {
+      this.notify(Number(progress.toFixed(3)), this.totalSteps, message);
+    } catch (error) {
+      console.error('Failed to send progress notification:', error instanceof Error ? error.message : error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+// Anthropic Messages API LLM provider
+import { httpClient } from '../http.js';
+import { ResponseCache } from '../cache.js';
+import { CostTracker, llmTokenCostUsd } from '../costs.js';
+import { LlmProvider, LlmRequest } from './types.js';
+
+export class AnthropicLlm implements LlmProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+
+  constructor(
+    private cache: ResponseCache,
+    private costs: CostTracker,
+    model?: string,
+    private signal?: AbortSignal,
+    private apiKey: string | undefined = process.env.ANTHROPIC_API_KEY
+  ) {
+    this.model = model || 'claude-3-5-haiku-latest';
+  }
+
+  missingConfig(): string[] {
+    return this.apiKey ? [] : ['ANTHROPIC_API_KEY'];
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    const endpoint = 'https://api.anthropic.com/v1/messages';
+    const requestBody = {
+      model: this.model,
+      system: request.system,
+      messages: [
+        { role: 'user', content: request.prompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    };
+
+    const data = await this.cache.wrap('anthropic', endpoint, requestBody, async () => {
+      const response = await httpClient('anthropic').fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'x-api-key': this.apiKey || '',
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(requestBody),
+        signal: this.signal
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Anthropic API error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      const data = await response.json() as any;
+      this.costs.record('anthropic', llmTokenCostUsd('anthropic', this.model, data.usage?.input_tokens || 0, data.usage?.output_tokens || 0));
+      return data;
+    });
+
+    return (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('')
+      .trim();
+  }
+}
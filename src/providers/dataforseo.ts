@@ -0,0 +1,272 @@
+// DataForSEO keyword data provider (default)
+import { httpClient, sleep } from '../http.js';
+import { ResponseCache } from '../cache.js';
+import { CostTracker } from '../costs.js';
+import { Market } from '../markets.js';
+import { DataPriority } from '../types.js';
+import { KeywordDataProvider, KeywordDataResponse } from './types.js';
+
+const API_BASE = 'https://api.dataforseo.com/v3';
+
+// Standard-queue endpoints: tasks are posted in bulk, then collected with task_get once tasks_ready lists them
+interface TaskQueue {
+  label: string;
+  taskPost: string;
+  tasksReady: string;
+  taskGet: (id: string) => string;
+}
+
+const QUEUES: Record<'keywordMetrics' | 'relatedKeywords' | 'serp', TaskQueue> = {
+  keywordMetrics: {
+    label: 'keyword metrics',
+    taskPost: `${API_BASE}/keywords_data/google_ads/search_volume/task_post`,
+    tasksReady: `${API_BASE}/keywords_data/google_ads/search_volume/tasks_ready`,
+    taskGet: id => `${API_BASE}/keywords_data/google_ads/search_volume/task_get/${id}`
+  },
+  relatedKeywords: {
+    label: 'related keywords',
+    taskPost: `${API_BASE}/keywords_data/google_ads/keywords_for_keywords/task_post`,
+    tasksReady: `${API_BASE}/keywords_data/google_ads/keywords_for_keywords/tasks_ready`,
+    taskGet: id => `${API_BASE}/keywords_data/google_ads/keywords_for_keywords/task_get/${id}`
+  },
+  serp: {
+    label: 'SERP',
+    taskPost: `${API_BASE}/serp/google/organic/task_post`,
+    tasksReady: `${API_BASE}/serp/google/organic/tasks_ready`,
+    taskGet: id => `${API_BASE}/serp/google/organic/task_get/advanced/${id}`
+  }
+};
+
+// DataForSEO accepts up to 100 tasks per task_post request
+const MAX_TASKS_PER_POST = 100;
+const STATUS_OK = 20000;
+const STATUS_TASK_CREATED = 20100;
+
+// Override with DATAFORSEO_POLL_INTERVAL_SECONDS and DATAFORSEO_QUEUE_TIMEOUT_MINUTES
+const DEFAULT_POLL_INTERVAL_SECONDS = 30;
+const DEFAULT_QUEUE_TIMEOUT_MINUTES = 60;
+
+function pollIntervalMs(): number {
+  return (Number(process.env.DATAFORSEO_POLL_INTERVAL_SECONDS) || DEFAULT_POLL_INTERVAL_SECONDS) * 1000;
+}
+
+function queueTimeoutMs(): number {
+  return (Number(process.env.DATAFORSEO_QUEUE_TIMEOUT_MINUTES) || DEFAULT_QUEUE_TIMEOUT_MINUTES) * 60000;
+}
+
+// A task waiting to be posted, resolved with a { tasks: [task] } envelope once its result is collected
+interface PendingTask {
+  task: Record<string, unknown>;
+  resolve: (response: KeywordDataResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+export class DataForSeoProvider implements KeywordDataProvider {
+  readonly name = 'dataforseo';
+  private pending = new Map<TaskQueue, PendingTask[]>();
+
+  constructor(
+    private cache: ResponseCache,
+    private costs: CostTracker,
+    private signal?: AbortSignal,
+    readonly priority: DataPriority = 'live',
+    private username: string | undefined = process.env.DATAFORSEO_USERNAME,
+    private password: string | undefined = process.env.DATAFORSEO_PASSWORD
+  ) {}
+
+  missingConfig(): string[] {
+    const missing: string[] = [];
+    if (!this.username) missing.push('DATAFORSEO_USERNAME');
+    if (!this.password) missing.push('DATAFORSEO_PASSWORD');
+    return missing;
+  }
+
+  private async request(endpoint: string, requestBody: unknown, errorLabel: string): Promise<KeywordDataResponse> {
+    const credentials = Buffer.from(`${this.username}:${this.password}`).toString('base64');
+
+    const response = await httpClient('dataforseo').fetch(endpoint, {
+      method: requestBody === undefined ? 'GET' : 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/json'
+      },
+      body: requestBody === undefined ? undefined : JSON.stringify(requestBody),
+      signal: this.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`DataForSEO ${errorLabel} error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as KeywordDataResponse;
+  }
+
+  private async post(endpoint: string, requestBody: unknown, errorLabel: string): Promise<KeywordDataResponse> {
+    return this.cache.wrap('dataforseo', endpoint, requestBody, async () => {
+      const data = await this.request(endpoint, requestBody, errorLabel);
+      // DataForSEO reports the actual charge for every request
+      this.costs.record('dataforseo', Number(data.cost) || 0);
+      // Errors come back with HTTP 200; throwing here keeps them out of the cache
+      const failed = data.status_code !== STATUS_OK ? data : (data.tasks || []).find((task: any) => task?.status_code !== STATUS_OK);
+      if (failed) {
+        throw new Error(`DataForSEO ${errorLabel} error: ${failed.status_message || `status ${failed.status_code}`}`);
+      }
+      return data;
+    });
+  }
+
+  // Queue one task on the standard queue. Tasks requested in the same tick (e.g. the parallel SERP lookups)
+  // are posted together; each caller gets a response in the same shape as the live endpoint's.
+  private queued(queue: TaskQueue, task: Record<string, unknown>): Promise<KeywordDataResponse> {
+    return this.cache.wrap('dataforseo', queue.taskPost, [task], () => new Promise<KeywordDataResponse>((resolve, reject) => {
+      let batch = this.pending.get(queue);
+      if (!batch) {
+        const newBatch: PendingTask[] = [];
+        this.pending.set(queue, newBatch);
+        setTimeout(() => {
+          this.pending.delete(queue);
+          this.runBatch(queue, newBatch);
+        }, 0);
+        batch = newBatch;
+      }
+      batch.push({ task, resolve, reject });
+    }));
+  }
+
+  private async runBatch(queue: TaskQueue, batch: PendingTask[]): Promise<void> {
+    const waiting = new Map<string, PendingTask>();
+
+    for (let start = 0; start < batch.length; start += MAX_TASKS_PER_POST) {
+      const chunk = batch.slice(start, start + MAX_TASKS_PER_POST);
+      try {
+        // The tag matches each created task back to its caller
+        const posted = await this.request(queue.taskPost, chunk.map((pending, index) => ({ ...pending.task, tag: String(index) })), `${queue.label} task_post`);
+        const created = new Map<string, any>((posted.tasks || []).map((task: any) => [String(task.data?.tag), task]));
+        chunk.forEach((pending, index) => {
+          const task = created.get(String(index));
+          if (task?.status_code === STATUS_TASK_CREATED) {
+            // The charge is made when the task is posted; collecting it is free
+            this.costs.record('dataforseo', Number(task.cost) || 0);
+            waiting.set(task.id, pending);
+          } else {
+            pending.reject(new Error(`DataForSEO ${queue.label} task_post error: ${task?.status_message || 'task was not created'}`));
+          }
+        });
+      } catch (error) {
+        chunk.forEach(pending => pending.reject(error));
+      }
+    }
+
+    const deadline = Date.now() + queueTimeoutMs();
+    // Reported with the deadline so that a polling outage, not just a slow queue, reaches the caller's failures
+    let pollError: string | null = null;
+    while (waiting.size > 0) {
+      try {
+        if (Date.now() >= deadline) {
+          throw new Error(`DataForSEO ${queue.label} tasks were not ready after ${Math.round(queueTimeoutMs() / 60000)} minutes (task ids: ${[...waiting.keys()].join(', ')})` +
+            (pollError ? `; last tasks_ready error: ${pollError}` : ''));
+        }
+        await sleep(pollIntervalMs(), this.signal);
+      } catch (error) {
+        waiting.forEach(pending => pending.reject(error));
+        return;
+      }
+
+      let readyIds: string[];
+      try {
+        const ready = await this.request(queue.tasksReady, undefined, `${queue.label} tasks_ready`);
+        readyIds = (ready.tasks || []).flatMap((task: any) => task.result || []).map((item: any) => item.id).filter((id: string) => waiting.has(id));
+        pollError = null;
+      } catch (error) {
+        if (this.signal?.aborted) {
+          waiting.forEach(pending => pending.reject(error));
+          return;
+        }
+        // The HTTP client has already retried; keep polling until the deadline
+        pollError = error instanceof Error ? error.message : String(error);
+        console.error(`DataForSEO ${queue.label} tasks_ready failed:`, pollError);
+        continue;
+      }
+
+      for (const id of readyIds) {
+        const pending = waiting.get(id)!;
+        waiting.delete(id);
+        try {
+          const data = await this.request(queue.taskGet(id), undefined, `${queue.label} task_get`);
+          const task = data.tasks?.[0];
+          if (task?.status_code !== STATUS_OK) {
+            throw new Error(`DataForSEO ${queue.label} task failed: ${task?.status_message || 'no result returned'}`);
+          }
+          pending.resolve(data);
+        } catch (error) {
+          pending.reject(error);
+        }
+      }
+    }
+  }
+
+  async getKeywordMetrics(keywords: string[], market: Market): Promise<KeywordDataResponse> {
+    const task = {
+      keywords: keywords,
+      location_code: market.location_code,
+      language_code: market.language_code,
+      include_serp_info: true,
+      include_clickstream_data: true
+    };
+    return this.priority === 'standard'
+      ? this.queued(QUEUES.keywordMetrics, task)
+      : this.post(`${API_BASE}/keywords_data/google_ads/search_volume/live`, [task], 'keyword metrics');
+  }
+
+  async getRelatedKeywords(keywords: string[], market: Market): Promise<KeywordDataResponse> {
+    const task = {
+      keywords: keywords,
+      location_code: market.location_code,
+      language_code: market.language_code,
+      include_serp_info: true,
+      limit: 1000,
+      order_by: ['search_volume,desc']
+    };
+    return this.priority === 'standard'
+      ? this.queued(QUEUES.relatedKeywords, task)
+      : this.post(`${API_BASE}/keywords_data/google_ads/keywords_for_keywords/live`, [task], 'related keywords');
+  }
+
+  // DataForSEO Live SERP API accepts only ONE keyword per request; the standard queue takes them in bulk
+  async getSerp(keyword: string, market: Market, depth: number): Promise<KeywordDataResponse> {
+    const task = {
+      keyword: keyword,
+      location_code: market.location_code,
+      language_code: market.language_code,
+      device: 'desktop',
+      depth: depth
+    };
+    return this.priority === 'standard'
+      ? this.queued(QUEUES.serp, task)
+      : this.post(`${API_BASE}/serp/google/organic/live/advanced`, [task], 'SERP');
+  }
+
+  // DataForSEO Labs has no standard queue, so ranked keywords are always fetched live
+  async getRankedKeywords(domain: string, market: Market, limit: number): Promise<KeywordDataResponse> {
+    return this.post(`${API_BASE}/dataforseo_labs/google/ranked_keywords/live`, [{
+      target: domain,
+      location_code: market.location_code,
+      language_code: market.language_code,
+      item_types: ['organic'],
+      limit: limit,
+      order_by: ['keyword_data.keyword_info.search_volume,desc']
+    }], 'ranked keywords');
+  }
+
+  // Also a DataForSEO Labs endpoint, so always live
+  async getKeywordSuggestions(seed: string, market: Market, limit: number, pattern?: string): Promise<KeywordDataResponse> {
+    return this.post(`${API_BASE}/dataforseo_labs/google/keyword_suggestions/live`, [{
+      keyword: seed,
+      location_code: market.location_code,
+      language_code: market.language_code,
+      limit: limit,
+      order_by: ['keyword_info.search_volume,desc'],
+      ...(pattern ? { filters: [['keyword', 'regex', pattern]] } : {})
+    }], 'keyword suggestions');
+  }
+}
@@ -0,0 +1,102 @@
+// Firecrawl scraper (default)
+import { httpClient } from '../http.js';
+import { ResponseCache } from '../cache.js';
+import { CostTracker, PRICES } from '../costs.js';
+import { Scraper, ScrapedPage } from './types.js';
+
+export class FirecrawlScraper implements Scraper {
+  readonly name = 'firecrawl';
+
+  constructor(
+    private cache: ResponseCache,
+    private costs: CostTracker,
+    private signal?: AbortSignal,
+    private apiKey: string | undefined = process.env.FIRECRAWL_API_KEY
+  ) {}
+
+  missingConfig(): string[] {
+    return this.apiKey ? [] : ['FIRECRAWL_API_KEY'];
+  }
+
+  async scrape(url: string): Promise<ScrapedPage> {
+    const endpoint = 'https://api.firecrawl.dev/v1/scrape';
+    const requestBody = {
+      url: url,
+      formats: ['markdown'],
+      includeTags: ['title', 'meta', 'h1', 'h2', 'h3', 'p'],
+      excludeTags: ['script', 'style', 'nav', 'footer', 'code', 'pre'],
+      onlyMainContent: true,
+      waitFor: 2000
+    };
+
+    const data = await this.cache.wrap('firecrawl', endpoint, requestBody, async () => {
+      const response = await httpClient('firecrawl').fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(requestBody),
+        signal: this.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Firecrawl API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as any;
+
+      if (!data.success) {
+        throw new Error('Failed to scrape website. Please check the URL and try again.');
+      }
+
+      this.costs.record('firecrawl', PRICES.firecrawlPerCall);
+
+      return data.data;
+    });
+
+    return {
+      url: data.metadata?.sourceURL || url,
+      title: data.metadata?.title || '',
+      description: data.metadata?.description || '',
+      markdown: data.markdown || ''
+    };
+  }
+
+  async mapSite(url: string, limit: number): Promise<string[]> {
+    const endpoint = 'https://api.firecrawl.dev/v1/map';
+    const requestBody = {
+      url: url,
+      limit: limit,
+      includeSubdomains: false
+    };
+
+    const data = await this.cache.wrap('firecrawl', endpoint, requestBody, async () => {
+      const response = await httpClient('firecrawl').fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(requestBody),
+        signal: this.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Firecrawl map API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as any;
+
+      if (!data.success) {
+        throw new Error('Failed to map website. Please check the URL and try again.');
+      }
+
+      this.costs.record('firecrawl', PRICES.firecrawlPerCall);
+
+      return data;
+    });
+
+    return Array.isArray(data.links) ? data.links : [];
+  }
+}
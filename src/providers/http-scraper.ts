@@ -0,0 +1,105 @@
+// Plain HTTP fetch + HTML parsing scraper (no API key required)
+import { httpClient } from '../http.js';
+import { ResponseCache } from '../cache.js';
+import { CostTracker } from '../costs.js';
+import { Scraper, ScrapedPage } from './types.js';
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&apos;': "'",
+  '&nbsp;': ' '
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&(amp|lt|gt|quot|apos|nbsp|#39);/g, entity => ENTITIES[entity] || entity)
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function metaContent(html: string, name: string): string {
+  const tags = html.match(/<meta\b[^>]*>/gi) || [];
+  for (const tag of tags) {
+    const key = tag.match(/\b(?:name|property)\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (key && key.toLowerCase() === name) {
+      return decodeEntities(tag.match(/\bcontent\s*=\s*["']([^"']*)["']/i)?.[1] || '').trim();
+    }
+  }
+  return '';
+}
+
+// Convert the main content of an HTML document into Firecrawl-like markdown (headings and paragraphs only)
+export function htmlToPage(url: string, html: string): ScrapedPage {
+  const title = stripTags(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '') || metaContent(html, 'og:title');
+  const description = metaContent(html, 'description') || metaContent(html, 'og:description');
+
+  const body = (html.match(/<main[^>]*>([\s\S]*?)<\/main>/i)?.[1] || html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1] || html)
+    .replace(/<(script|style|nav|footer|header|code|pre|noscript|svg|form)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ');
+
+  const blocks: string[] = [];
+  const blockPattern = /<(h[1-3]|p|li)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(body)) !== null) {
+    const text = stripTags(match[2]);
+    if (!text) continue;
+    const tag = match[1].toLowerCase();
+    if (tag.startsWith('h')) {
+      blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+    } else if (tag === 'li') {
+      blocks.push(`- ${text}`);
+    } else {
+      blocks.push(text);
+    }
+  }
+
+  return {
+    url,
+    title,
+    description,
+    markdown: blocks.join('\n\n')
+  };
+}
+
+export class HttpScraper implements Scraper {
+  readonly name = 'http';
+
+  constructor(
+    private cache: ResponseCache,
+    private costs: CostTracker,
+    private signal?: AbortSignal,
+    private userAgent: string = process.env.HTTP_SCRAPER_USER_AGENT || 'Mozilla/5.0 (compatible; KeywordResearchTool/1.0)'
+  ) {}
+
+  missingConfig(): string[] {
+    return [];
+  }
+
+  async scrape(url: string): Promise<ScrapedPage> {
+    const html = await this.cache.wrap('http', url, { method: 'GET' }, async () => {
+      const response = await httpClient('http').fetch(url, {
+        headers: {
+          'User-Agent': this.userAgent,
+          'Accept': 'text/html,application/xhtml+xml'
+        },
+        signal: this.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+      }
+
+      this.costs.record('http', 0);
+      return await response.text();
+    });
+
+    return htmlToPage(url, html);
+  }
+}
@@ -0,0 +1,63 @@
+// Provider selection from environment configuration
+import { ResponseCache } from '../cache.js';
+import { CostTracker } from '../costs.js';
+import { DataPriority } from '../types.js';
+import { Providers, Scraper, LlmProvider, KeywordDataProvider } from './types.js';
+import { FirecrawlScraper } from './firecrawl.js';
+import { HttpScraper } from './http-scraper.js';
+import { createPerplexityLlm, createOpenAiLlm, createOllamaLlm } from './openai-compatible.js';
+import { AnthropicLlm } from './anthropic.js';
+import { DataForSeoProvider } from './dataforseo.js';
+
+export * from './types.js';
+
+export const SCRAPER_PROVIDERS = ['firecrawl', 'http'];
+export const LLM_PROVIDERS = ['perplexity', 'openai', 'anthropic', 'ollama'];
+export const KEYWORD_DATA_PROVIDERS = ['dataforseo'];
+
+function selected(envName: string, allowed: string[]): string {
+  const value = (process.env[envName] || allowed[0]).trim().toLowerCase();
+  if (!allowed.includes(value)) {
+    throw new Error(`Unsupported ${envName} "${process.env[envName]}". Use one of: ${allowed.join(', ')}.`);
+  }
+  return value;
+}
+
+export function createScraper(cache: ResponseCache, costs: CostTracker, signal?: AbortSignal): Scraper {
+  switch (selected('SCRAPER_PROVIDER', SCRAPER_PROVIDERS)) {
+    case 'http':
+      return new HttpScraper(cache, costs, signal);
+    default:
+      return new FirecrawlScraper(cache, costs, signal);
+  }
+}
+
+export function createLlmProvider(cache: ResponseCache, costs: CostTracker, signal?: AbortSignal): LlmProvider {
+  const model = process.env.LLM_MODEL || undefined;
+  switch (selected('LLM_PROVIDER', LLM_PROVIDERS)) {
+    case 'openai':
+      return createOpenAiLlm(cache, costs, model, signal);
+    case 'anthropic':
+      return new AnthropicLlm(cache, costs, model, signal);
+    case 'ollama':
+      return createOllamaLlm(cache, costs, model, signal);
+    default:
+      return createPerplexityLlm(cache, costs, model, signal);
+  }
+}
+
+export function createKeywordDataProvider(cache: ResponseCache, costs: CostTracker, signal?: AbortSignal, priority: DataPriority = 'live'): KeywordDataProvider {
+  selected('KEYWORD_DATA_PROVIDER', KEYWORD_DATA_PROVIDERS);
+  return new DataForSeoProvider(cache, costs, signal, priority);
+}
+
+// Build the providers chosen by SCRAPER_PROVIDER, LLM_PROVIDER and KEYWORD_DATA_PROVIDER.
+// Uncached calls report their cost to the tracker; aborting the signal cancels in-flight requests.
+// priority selects live keyword data endpoints or the cheaper standard queue.
+export function createProviders(cache: ResponseCache, costs: CostTracker = new CostTracker(), signal?: AbortSignal, priority: DataPriority = 'live'): Providers {
+  return {
+    scraper: createScraper(cache, costs, signal),
+    llm: createLlmProvider(cache, costs, signal),
+    keywordData: createKeywordDataProvider(cache, costs, signal, priority)
+  };
+}
@@ -0,0 +1,114 @@
+// Chat-completions LLM providers: Perplexity (default), OpenAI and local Ollama
+import { httpClient } from '../http.js';
+import { ResponseCache } from '../cache.js';
+import { CostTracker, llmTokenCostUsd } from '../costs.js';
+import { LlmProvider, LlmRequest } from './types.js';
+
+interface ChatCompletionsConfig {
+  name: 'perplexity' | 'openai' | 'ollama';
+  label: string;
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+  apiKeyEnv?: string;
+}
+
+export class ChatCompletionsLlm implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(private cache: ResponseCache, private costs: CostTracker, private config: ChatCompletionsConfig, private signal?: AbortSignal) {
+    this.name = config.name;
+    this.model = config.model;
+  }
+
+  missingConfig(): string[] {
+    return this.config.apiKeyEnv && !this.config.apiKey ? [this.config.apiKeyEnv] : [];
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    const requestBody = {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    };
+
+    const headers: Record<string, string> = {
+      'accept': 'application/json',
+      'Content-Type': 'application/json'
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const data = await this.cache.wrap(this.config.name, this.config.endpoint, requestBody, async () => {
+      const response = await httpClient(this.config.name).fetch(this.config.endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: this.signal
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`${this.config.label} API Error Details:`, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: Object.fromEntries(response.headers.entries()),
+          body: errorText,
+          url: response.url
+        });
+        throw new Error(`${this.config.label} API error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      const data = await response.json() as any;
+      // Perplexity returns the billed amount; otherwise price the token usage
+      const usage = data.usage || {};
+      const reportedCost = Number(usage.cost?.total_cost);
+      this.costs.record(this.config.name, !isNaN(reportedCost)
+        ? reportedCost
+        : llmTokenCostUsd(this.config.name, this.model, usage.prompt_tokens || 0, usage.completion_tokens || 0));
+      return data;
+    });
+
+    return (data.choices?.[0]?.message?.content || '').trim();
+  }
+}
+
+export function createPerplexityLlm(cache: ResponseCache, costs: CostTracker, model?: string, signal?: AbortSignal): ChatCompletionsLlm {
+  return new ChatCompletionsLlm(cache, costs, {
+    name: 'perplexity',
+    label: 'Perplexity',
+    endpoint: 'https://api.perplexity.ai/chat/completions',
+    model: model || 'sonar-pro',
+    apiKey: process.env.PERPLEXITY_API_KEY,
+    apiKeyEnv: 'PERPLEXITY_API_KEY'
+  }, signal);
+}
+
+export function createOpenAiLlm(cache: ResponseCache, costs: CostTracker, model?: string, signal?: AbortSignal): ChatCompletionsLlm {
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  return new ChatCompletionsLlm(cache, costs, {
+    name: 'openai',
+    label: 'OpenAI',
+    endpoint: `${baseUrl}/chat/completions`,
+    model: model || 'gpt-4o-mini',
+    apiKey: process.env.OPENAI_API_KEY,
+    apiKeyEnv: 'OPENAI_API_KEY'
+  }, signal);
+}
+
+// Ollama exposes an OpenAI-compatible endpoint and needs no API key
+export function createOllamaLlm(cache: ResponseCache, costs: CostTracker, model?: string, signal?: AbortSignal): ChatCompletionsLlm {
+  const baseUrl = (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/+$/, '');
+  return new ChatCompletionsLlm(cache, costs, {
+    name: 'ollama',
+    label: 'Ollama',
+    endpoint: `${baseUrl}/v1/chat/completions`,
+    model: model || 'llama3.1'
+  }, signal);
+}
@@ -0,0 +1,64 @@
+// Provider interfaces for the external services used by the analysis pipeline
+import { Market } from '../markets.js';
+import { DataPriority } from '../types.js';
+
+// A single scraped page, normalized across scraper backends
+export interface ScrapedPage {
+  url: string;
+  title: string;
+  description: string;
+  markdown: string;
+}
+
+export interface Scraper {
+  readonly name: string;
+  // Environment variables the scraper still needs before it can be used
+  missingConfig(): string[];
+  scrape(url: string): Promise<ScrapedPage>;
+  // Optional site map discovery (firecrawl_map crawl mode); returns page URLs on the site
+  mapSite?(url: string, limit: number): Promise<string[]>;
+}
+
+export interface LlmRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  missingConfig(): string[];
+  // Returns the assistant's text response
+  complete(request: LlmRequest): Promise<string>;
+}
+
+// Responses follow the DataForSEO v3 envelope ({ tasks: [{ data, result, cost }] }) so that
+// analyzeAndCluster can consume any backend without translation.
+export interface KeywordDataResponse {
+  tasks?: any[];
+  [key: string]: any;
+}
+
+export interface KeywordDataProvider {
+  readonly name: string;
+  // Backends without a cheaper queue always answer live
+  readonly priority: DataPriority;
+  missingConfig(): string[];
+  getKeywordMetrics(keywords: string[], market: Market): Promise<KeywordDataResponse>;
+  getRelatedKeywords(keywords: string[], market: Market): Promise<KeywordDataResponse>;
+  // One SERP per call; the result's task data must echo the keyword
+  getSerp(keyword: string, market: Market, depth: number): Promise<KeywordDataResponse>;
+  // Keywords a domain ranks for, in the DataForSEO Labs ranked_keywords shape (result[0].items[].keyword_data / ranked_serp_element)
+  getRankedKeywords(domain: string, market: Market, limit: number): Promise<KeywordDataResponse>;
+  // Keywords containing the seed, in the DataForSEO Labs keyword_suggestions shape (result[0].items[].keyword / keyword_info);
+  // pattern is a regular expression the keywords must match
+  getKeywordSuggestions(seed: string, market: Market, limit: number, pattern?: string): Promise<KeywordDataResponse>;
+}
+
+export interface Providers {
+  scraper: Scraper;
+  llm: LlmProvider;
+  keywordData: KeywordDataProvider;
+}
@@ -0,0 +1,247 @@
+// Local rank tracking: the keyword/domain/market tuples being watched, and a JSON-lines log of every position check
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface TrackedKeyword {
+  keyword: string;
+  domain: string;
+  location_code: number;
+  language_code: string;
+  // Cluster the keyword was picked from (its main keyword), used for per-cluster averages
+  cluster: string | null;
+  added_at: string;
+}
+
+// One line of checks.jsonl; position is null when the domain is not in the checked SERP depth
+export interface RankCheck {
+  checked_at: string;
+  keyword: string;
+  domain: string;
+  location_code: number;
+  language_code: string;
+  position: number | null;
+  url: string | null;
+  depth: number;
+}
+
+export type RankMovement = 'unchecked' | 'first_check' | 'improved' | 'declined' | 'unchanged' | 'entered' | 'dropped' | 'not_ranking';
+
+export interface KeywordRankHistory {
+  keyword: string;
+  cluster: string | null;
+  location_code: number;
+  language_code: string;
+  current_position: number | null;
+  current_url: string | null;
+  previous_position: number | null;
+  // Positions gained since the previous check (positive is better); null unless both checks ranked
+  change: number | null;
+  movement: RankMovement;
+  best_position: number | null;
+  last_checked: string | null;
+  history: { checked_at: string; position: number | null; url: string | null }[];
+}
+
+export interface ClusterRankSummary {
+  cluster: string;
+  tracked_keywords: number;
+  ranking_keywords: number;
+  // Averages over the keywords that rank at each check; keywords outside the checked depth are left out
+  average_position: number | null;
+  previous_average_position: number | null;
+  // Average positions gained by the keywords that ranked at both checks, so keywords entering or dropping out do not skew it
+  change: number | null;
+}
+
+export interface RankHistory {
+  domain: string;
+  tracked_keywords: number;
+  last_checked: string | null;
+  movement: Record<RankMovement, number>;
+  keywords: KeywordRankHistory[];
+  clusters: ClusterRankSummary[];
+}
+
+export interface RankFilter {
+  location_code?: number;
+  language_code?: string;
+  keywords?: string[];
+  cluster?: string;
+}
+
+const UNCLUSTERED = 'Unclustered';
+
+export function getRankTrackingDir(): string {
+  return process.env.RANK_TRACKING_DIR || path.join(process.cwd(), 'rank-tracking');
+}
+
+function trackingKey(entry: { keyword: string, domain: string, location_code: number, language_code: string }): string {
+  return [entry.domain, entry.location_code, entry.language_code, entry.keyword.toLowerCase()].join('|');
+}
+
+function matchesFilter(entry: TrackedKeyword | RankCheck, filter: RankFilter): boolean {
+  if (filter.location_code !== undefined && entry.location_code !== filter.location_code) return false;
+  if (filter.language_code !== undefined && entry.language_code !== filter.language_code) return false;
+  if (filter.keywords && !filter.keywords.some(kw => kw.toLowerCase() === entry.keyword.toLowerCase())) return false;
+  return true;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(1)) : null;
+}
+
+function movementOf(previous: RankCheck | undefined, current: RankCheck | undefined): RankMovement {
+  if (!current) return 'unchecked';
+  if (!previous) return current.position !== null ? 'first_check' : 'not_ranking';
+  if (previous.position === null) return current.position !== null ? 'entered' : 'not_ranking';
+  if (current.position === null) return 'dropped';
+  if (current.position < previous.position) return 'improved';
+  if (current.position > previous.position) return 'declined';
+  return 'unchanged';
+}
+
+export class RankStore {
+  constructor(private dir: string = getRankTrackingDir()) {}
+
+  private get trackedPath(): string {
+    return path.join(this.dir, 'tracked.json');
+  }
+
+  private get checksPath(): string {
+    return path.join(this.dir, 'checks.jsonl');
+  }
+
+  private readTracked(): TrackedKeyword[] {
+    if (!fs.existsSync(this.trackedPath)) return [];
+    return JSON.parse(fs.readFileSync(this.trackedPath, 'utf8')) as TrackedKeyword[];
+  }
+
+  listTracked(domain: string, filter: RankFilter = {}): TrackedKeyword[] {
+    return this.readTracked().filter(entry => entry.domain === domain && matchesFilter(entry, filter) &&
+      (filter.cluster === undefined || entry.cluster === filter.cluster));
+  }
+
+  // Add keywords to the tracked set; an already tracked keyword keeps its add date but takes a newly given cluster
+  track(entries: Omit<TrackedKeyword, 'added_at'>[]): TrackedKeyword[] {
+    const tracked = this.readTracked();
+    const byKey = new Map(tracked.map(entry => [trackingKey(entry), entry]));
+    const added: TrackedKeyword[] = [];
+
+    for (const entry of entries) {
+      const existing = byKey.get(trackingKey(entry));
+      if (existing) {
+        if (entry.cluster) existing.cluster = entry.cluster;
+        continue;
+      }
+      const newEntry = { ...entry, added_at: new Date().toISOString() };
+      tracked.push(newEntry);
+      byKey.set(trackingKey(newEntry), newEntry);
+      added.push(newEntry);
+    }
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.trackedPath, JSON.stringify(tracked, null, 2), 'utf8');
+    return added;
+  }
+
+  // Stop tracking keywords; their recorded checks are kept
+  untrack(domain: string, keywords: string[], filter: RankFilter = {}): number {
+    const remove = new Set(keywords.map(kw => kw.toLowerCase()));
+    const tracked = this.readTracked();
+    const kept = tracked.filter(entry => !(entry.domain === domain && matchesFilter(entry, filter) && remove.has(entry.keyword.toLowerCase())));
+    if (kept.length !== tracked.length) {
+      fs.writeFileSync(this.trackedPath, JSON.stringify(kept, null, 2), 'utf8');
+    }
+    return tracked.length - kept.length;
+  }
+
+  recordChecks(checks: RankCheck[]): void {
+    if (checks.length === 0) return;
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.appendFileSync(this.checksPath, checks.map(check => JSON.stringify(check)).join('\n') + '\n', 'utf8');
+  }
+
+  // Checks in the order they were recorded
+  listChecks(domain: string, filter: RankFilter = {}): RankCheck[] {
+    if (!fs.existsSync(this.checksPath)) return [];
+    return fs.readFileSync(this.checksPath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as RankCheck];
+        } catch {
+          // A line cut short by a crash is skipped rather than breaking the whole history
+          return [];
+        }
+      })
+      .filter(check => check.domain === domain && matchesFilter(check, filter));
+  }
+
+  // Time series, movement since the previous check and per-cluster average positions of the tracked keywords
+  history(domain: string, filter: RankFilter = {}, since?: string): RankHistory {
+    const sinceTime = since ? new Date(since).getTime() : undefined;
+    if (sinceTime !== undefined && isNaN(sinceTime)) {
+      throw new Error('since must be a valid date (e.g., 2024-01-31).');
+    }
+
+    const tracked = this.listTracked(domain, filter);
+    const checksByKey = new Map<string, RankCheck[]>();
+    for (const check of this.listChecks(domain, filter)) {
+      const key = trackingKey(check);
+      if (!checksByKey.has(key)) checksByKey.set(key, []);
+      checksByKey.get(key)!.push(check);
+    }
+
+    const keywords: KeywordRankHistory[] = tracked.map(entry => {
+      const checks = checksByKey.get(trackingKey(entry)) || [];
+      const current = checks[checks.length - 1];
+      const previous = checks[checks.length - 2];
+      const positions = checks.map(check => check.position).filter((position): position is number => position !== null);
+      return {
+        keyword: entry.keyword,
+        cluster: entry.cluster,
+        location_code: entry.location_code,
+        language_code: entry.language_code,
+        current_position: current?.position ?? null,
+        current_url: current?.url ?? null,
+        previous_position: previous?.position ?? null,
+        change: current?.position != null && previous?.position != null ? previous.position - current.position : null,
+        movement: movementOf(previous, current),
+        best_position: positions.length > 0 ? Math.min(...positions) : null,
+        last_checked: current?.checked_at ?? null,
+        history: checks
+          .filter(check => sinceTime === undefined || new Date(check.checked_at).getTime() >= sinceTime)
+          .map(check => ({ checked_at: check.checked_at, position: check.position, url: check.url }))
+      };
+    });
+
+    const clusterNames = [...new Set(keywords.map(kw => kw.cluster || UNCLUSTERED))];
+    const clusters: ClusterRankSummary[] = clusterNames.map(cluster => {
+      const members = keywords.filter(kw => (kw.cluster || UNCLUSTERED) === cluster);
+      const currentPositions = members.map(kw => kw.current_position).filter((position): position is number => position !== null);
+      const previousPositions = members.map(kw => kw.previous_position).filter((position): position is number => position !== null);
+      return {
+        cluster,
+        tracked_keywords: members.length,
+        ranking_keywords: currentPositions.length,
+        average_position: average(currentPositions),
+        previous_average_position: average(previousPositions),
+        change: average(members.map(kw => kw.change).filter((change): change is number => change !== null))
+      };
+    }).sort((a, b) => (a.average_position ?? Infinity) - (b.average_position ?? Infinity));
+
+    const movement: Record<RankMovement, number> = { unchecked: 0, first_check: 0, improved: 0, declined: 0, unchanged: 0, entered: 0, dropped: 0, not_ranking: 0 };
+    keywords.forEach(kw => movement[kw.movement]++);
+    const lastChecked = keywords.map(kw => kw.last_checked).filter((date): date is string => !!date).sort().pop() || null;
+
+    return {
+      domain,
+      tracked_keywords: keywords.length,
+      last_checked: lastChecked,
+      movement,
+      keywords: keywords.sort((a, b) => (a.current_position ?? Infinity) - (b.current_position ?? Infinity)),
+      clusters
+    };
+  }
+}
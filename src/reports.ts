@@ -0,0 +1,459 @@
+// Reading saved reports back from disk and diffing two analyses of the same site
+import * as fs from 'fs';
+import * as path from 'path';
+import { KeywordCluster, KeywordData, SavedReport } from './types.js';
+
+export interface SavedReportEntry {
+  json_path: string;
+  text_path: string | null;
+  domain: string;
+  website_url: string;
+  business_type: string;
+  // ISO timestamp; null when neither the report nor its file has a usable date
+  generated_at: string | null;
+}
+
+export interface MetricDelta {
+  previous: number;
+  current: number;
+  change: number;
+  change_pct: number | null;
+}
+
+interface KeywordSnapshot {
+  keyword: string;
+  search_volume: number;
+  cpc: number;
+  keyword_difficulty: number;
+}
+
+interface KeywordChange {
+  keyword: string;
+  search_volume: MetricDelta;
+  cpc: MetricDelta;
+  keyword_difficulty: MetricDelta;
+}
+
+interface ClusterSnapshot {
+  main_keyword: string;
+  theme: string;
+  total_search_volume: number;
+  keywords_count: number;
+}
+
+interface ClusterChange {
+  main_keyword: string;
+  total_search_volume: MetricDelta;
+  avg_cpc: MetricDelta;
+  avg_difficulty: MetricDelta;
+  keywords_added: string[];
+  keywords_removed: string[];
+}
+
+interface SetChange {
+  entered: string[];
+  left: string[];
+}
+
+export interface ReportDiff {
+  previous: { path: string; analysis_date: string };
+  current: { path: string; analysis_date: string };
+  website: string;
+  warnings: string[];
+  summary: {
+    total_keywords_analyzed: MetricDelta;
+    clusters_identified: MetricDelta;
+    total_monthly_search_volume: MetricDelta;
+    estimated_monthly_traffic_potential: MetricDelta;
+    avg_cpc: MetricDelta;
+  };
+  keywords: {
+    added: KeywordSnapshot[];
+    removed: KeywordSnapshot[];
+    changed: KeywordChange[];
+  };
+  clusters: {
+    added: ClusterSnapshot[];
+    removed: ClusterSnapshot[];
+    changed: ClusterChange[];
+  };
+  competitors: SetChange;
+  quick_wins: SetChange;
+  high_value: SetChange;
+}
+
+export function getReportsDir(): string {
+  return process.env.REPORTS_DIR || path.join(process.cwd(), 'reports');
+}
+
+export const REPORT_URI_PREFIX = 'report://';
+
+// Saved reports are exposed as MCP resources named after their file in reports/
+export function reportResourceUri(filePath: string): string {
+  return `${REPORT_URI_PREFIX}${encodeURIComponent(path.basename(filePath))}`;
+}
+
+export function reportPathFromUri(uri: string): string {
+  if (!uri.startsWith(REPORT_URI_PREFIX)) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  // Only bare file names are accepted so a URI cannot reach outside reports/
+  const fileName = path.basename(decodeURIComponent(uri.slice(REPORT_URI_PREFIX.length)));
+  const filePath = path.join(getReportsDir(), fileName);
+  if (!fileName || !fs.existsSync(filePath)) {
+    throw new Error(`Report not found: ${uri}`);
+  }
+  return filePath;
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url.startsWith('http') ? url : `https://${url}`).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+// Domain a saved report belongs to; older reports may have an empty metadata.domain
+export function reportDomain(report: SavedReport): string {
+  return report.metadata?.domain || hostnameOf(report.analysis_summary?.source_website || report.metadata?.website_url || '');
+}
+
+// First date that parses, as an ISO timestamp: older reports may lack metadata.generated_at or carry an invalid date
+function reportTimestamp(dates: Array<string | Date | undefined>): string | null {
+  for (const date of dates) {
+    if (!date) continue;
+    const time = new Date(date).getTime();
+    if (!isNaN(time)) return new Date(time).toISOString();
+  }
+  return null;
+}
+
+// Accept absolute paths, paths relative to the working directory, or bare file names inside reports/
+export function resolveReportPath(reportPath: string): string {
+  const candidates = path.isAbsolute(reportPath)
+    ? [reportPath]
+    : [path.resolve(process.cwd(), reportPath), path.join(getReportsDir(), reportPath)];
+
+  const found = candidates.find(candidate => fs.existsSync(candidate));
+  if (!found) {
+    throw new Error(`Report not found: ${reportPath}`);
+  }
+  return found;
+}
+
+export function loadReport(reportPath: string): SavedReport {
+  const filePath = resolveReportPath(reportPath);
+  if (!filePath.endsWith('.json')) {
+    throw new Error(`Only JSON reports can be loaded: ${reportPath}`);
+  }
+
+  let report: SavedReport;
+  try {
+    report = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read report ${reportPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!report || !report.analysis_summary || !Array.isArray(report.clusters)) {
+    throw new Error(`${reportPath} is not a keyword research report.`);
+  }
+  return report;
+}
+
+// All JSON reports in the reports directory, newest first
+export function listSavedReports(): SavedReportEntry[] {
+  const reportsDir = getReportsDir();
+  if (!fs.existsSync(reportsDir)) return [];
+
+  const entries: SavedReportEntry[] = [];
+  for (const file of fs.readdirSync(reportsDir)) {
+    if (!file.endsWith('.json')) continue;
+
+    const jsonPath = path.join(reportsDir, file);
+    try {
+      const report = loadReport(jsonPath);
+      const textPath = jsonPath.replace(/\.json$/, '_formatted.txt');
+      entries.push({
+        json_path: jsonPath,
+        text_path: fs.existsSync(textPath) ? textPath : null,
+        domain: reportDomain(report),
+        website_url: report.metadata?.website_url || report.analysis_summary.source_website,
+        business_type: report.metadata?.business_type || report.analysis_summary.business_type,
+        generated_at: reportTimestamp([report.metadata?.generated_at, report.analysis_summary.analysis_date, fs.statSync(jsonPath).mtime])
+      });
+    } catch {
+      // Skip files in reports/ that are not analysis reports
+    }
+  }
+
+  return entries.sort((a, b) => (b.generated_at ?? '').localeCompare(a.generated_at ?? ''));
+}
+
+export interface ReportFilter {
+  domain?: string;
+  business_type?: string;
+  since?: string;
+  until?: string;
+}
+
+export function filterSavedReports(filter: ReportFilter): SavedReportEntry[] {
+  const domain = filter.domain ? (hostnameOf(filter.domain) || filter.domain.toLowerCase()) : undefined;
+  const since = filter.since ? new Date(filter.since).getTime() : undefined;
+  let until = filter.until ? new Date(filter.until).getTime() : undefined;
+  // A date-only upper bound includes the whole day
+  if (until !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(filter.until!.trim())) {
+    until += 24 * 60 * 60 * 1000 - 1;
+  }
+
+  if ((since !== undefined && isNaN(since)) || (until !== undefined && isNaN(until))) {
+    throw new Error('since and until must be valid dates (e.g., 2024-01-31).');
+  }
+
+  return listSavedReports().filter(entry => {
+    if ((since !== undefined || until !== undefined) && entry.generated_at === null) return false;
+    const generated = new Date(entry.generated_at ?? '').getTime();
+    if (domain && entry.domain.toLowerCase() !== domain) return false;
+    if (filter.business_type && entry.business_type.toLowerCase() !== filter.business_type.toLowerCase()) return false;
+    if (since !== undefined && generated < since) return false;
+    if (until !== undefined && generated > until) return false;
+    return true;
+  });
+}
+
+// The two most recent reports for a domain, as [previous, current]
+export function findLatestReportPair(domain: string): [string, string] {
+  const target = hostnameOf(domain) || domain.toLowerCase();
+  const reports = listSavedReports().filter(entry => entry.domain.toLowerCase() === target);
+
+  if (reports.length < 2) {
+    throw new Error(`Need at least two saved reports for ${target} to compare, found ${reports.length}.`);
+  }
+  return [reports[1].json_path, reports[0].json_path];
+}
+
+function delta(previous: number, current: number): MetricDelta {
+  const prev = isNaN(previous) ? 0 : previous || 0;
+  const curr = isNaN(current) ? 0 : current || 0;
+  return {
+    previous: Number(prev.toFixed(2)),
+    current: Number(curr.toFixed(2)),
+    change: Number((curr - prev).toFixed(2)),
+    change_pct: prev !== 0 ? Number((((curr - prev) / prev) * 100).toFixed(1)) : null
+  };
+}
+
+function setChange(previous: string[], current: string[]): SetChange {
+  const prev = new Set(previous.map(item => item.toLowerCase()));
+  const curr = new Set(current.map(item => item.toLowerCase()));
+  return {
+    entered: [...curr].filter(item => !prev.has(item)),
+    left: [...prev].filter(item => !curr.has(item))
+  };
+}
+
+function keywordIndex(report: SavedReport): Map<string, KeywordData> {
+  const index = new Map<string, KeywordData>();
+  report.clusters.forEach(cluster => {
+    cluster.keywords.forEach(kw => index.set(kw.keyword.toLowerCase(), kw));
+  });
+  return index;
+}
+
+function clusterIndex(report: SavedReport): Map<string, KeywordCluster> {
+  return new Map(report.clusters.map(cluster => [cluster.main_keyword.toLowerCase(), cluster]));
+}
+
+function keywordSnapshot(kw: KeywordData): KeywordSnapshot {
+  return {
+    keyword: kw.keyword,
+    search_volume: kw.search_volume,
+    cpc: Number((kw.cpc || 0).toFixed(2)),
+    keyword_difficulty: Math.round(kw.keyword_difficulty)
+  };
+}
+
+function clusterSnapshot(cluster: KeywordCluster): ClusterSnapshot {
+  return {
+    main_keyword: cluster.main_keyword,
+    theme: cluster.theme,
+    total_search_volume: cluster.total_search_volume,
+    keywords_count: cluster.keywords.length
+  };
+}
+
+// Clusters are matched by main keyword since cluster ids are not stable between runs
+export function compareReports(previous: SavedReport, current: SavedReport, previousPath: string, currentPath: string): ReportDiff {
+  const warnings: string[] = [];
+  const previousDomain = reportDomain(previous);
+  const currentDomain = reportDomain(current);
+  if (previousDomain !== currentDomain) {
+    warnings.push(`Reports are for different sites: ${previousDomain || 'unknown'} vs ${currentDomain || 'unknown'}.`);
+  }
+
+  const previousMarket = `${previous.analysis_summary.location || 'United States'} / ${previous.analysis_summary.language || 'English'}`;
+  const currentMarket = `${current.analysis_summary.location || 'United States'} / ${current.analysis_summary.language || 'English'}`;
+  if (previousMarket !== currentMarket) {
+    warnings.push(`Reports target different markets: ${previousMarket} vs ${currentMarket}.`);
+  }
+  const previousProfile = previous.analysis_summary.scoring_profile || 'default';
+  const currentProfile = current.analysis_summary.scoring_profile || 'default';
+  if (previousProfile !== currentProfile) {
+    warnings.push(`Reports use different scoring profiles: ${previousProfile} vs ${currentProfile}; commercial scores, quick wins and high-value targets are not directly comparable.`);
+  }
+  const previousExpansion = (previous.analysis_summary.expansion_strategies || ['related']).join(', ');
+  const currentExpansion = (current.analysis_summary.expansion_strategies || ['related']).join(', ');
+  if (previousExpansion !== currentExpansion) {
+    warnings.push(`Reports use different keyword expansion strategies: ${previousExpansion} vs ${currentExpansion}; added and removed keywords partly reflect the expansion.`);
+  }
+  if (!previous.analysis_summary.traffic_scenarios !== !current.analysis_summary.traffic_scenarios) {
+    warnings.push('Traffic potential is not comparable: only one report uses the position-based traffic projection (older reports estimate 30% of search volume).');
+  }
+
+  const previousKeywords = keywordIndex(previous);
+  const currentKeywords = keywordIndex(current);
+
+  const changedKeywords: KeywordChange[] = [];
+  currentKeywords.forEach((kw, key) => {
+    const before = previousKeywords.get(key);
+    if (!before) return;
+
+    const change: KeywordChange = {
+      keyword: kw.keyword,
+      search_volume: delta(before.search_volume, kw.search_volume),
+      cpc: delta(before.cpc, kw.cpc),
+      keyword_difficulty: delta(Math.round(before.keyword_difficulty), Math.round(kw.keyword_difficulty))
+    };
+    if (change.search_volume.change !== 0 || change.cpc.change !== 0 || change.keyword_difficulty.change !== 0) {
+      changedKeywords.push(change);
+    }
+  });
+
+  const previousClusters = clusterIndex(previous);
+  const currentClusters = clusterIndex(current);
+
+  const changedClusters: ClusterChange[] = [];
+  currentClusters.forEach((cluster, key) => {
+    const before = previousClusters.get(key);
+    if (!before) return;
+
+    const keywordChanges = setChange(before.keywords.map(kw => kw.keyword), cluster.keywords.map(kw => kw.keyword));
+    const change: ClusterChange = {
+      main_keyword: cluster.main_keyword,
+      total_search_volume: delta(before.total_search_volume, cluster.total_search_volume),
+      avg_cpc: delta(before.avg_cpc, cluster.avg_cpc),
+      avg_difficulty: delta(Math.round(before.avg_difficulty), Math.round(cluster.avg_difficulty)),
+      keywords_added: keywordChanges.entered,
+      keywords_removed: keywordChanges.left
+    };
+    if (change.total_search_volume.change !== 0 || change.avg_cpc.change !== 0 || change.avg_difficulty.change !== 0 ||
+        change.keywords_added.length > 0 || change.keywords_removed.length > 0) {
+      changedClusters.push(change);
+    }
+  });
+
+  return {
+    previous: { path: previousPath, analysis_date: previous.analysis_summary.analysis_date },
+    current: { path: currentPath, analysis_date: current.analysis_summary.analysis_date },
+    website: current.analysis_summary.source_website,
+    warnings,
+    summary: {
+      total_keywords_analyzed: delta(previous.analysis_summary.total_keywords_analyzed, current.analysis_summary.total_keywords_analyzed),
+      clusters_identified: delta(previous.analysis_summary.clusters_identified, current.analysis_summary.clusters_identified),
+      total_monthly_search_volume: delta(previous.analysis_summary.total_monthly_search_volume, current.analysis_summary.total_monthly_search_volume),
+      estimated_monthly_traffic_potential: delta(previous.analysis_summary.estimated_monthly_traffic_potential, current.analysis_summary.estimated_monthly_traffic_potential),
+      avg_cpc: delta(previous.analysis_summary.avg_cpc, current.analysis_summary.avg_cpc)
+    },
+    keywords: {
+      added: [...currentKeywords.entries()].filter(([key]) => !previousKeywords.has(key)).map(([, kw]) => keywordSnapshot(kw))
+        .sort((a, b) => b.search_volume - a.search_volume),
+      removed: [...previousKeywords.entries()].filter(([key]) => !currentKeywords.has(key)).map(([, kw]) => keywordSnapshot(kw))
+        .sort((a, b) => b.search_volume - a.search_volume),
+      changed: changedKeywords.sort((a, b) => Math.abs(b.search_volume.change) - Math.abs(a.search_volume.change))
+    },
+    clusters: {
+      added: [...currentClusters.entries()].filter(([key]) => !previousClusters.has(key)).map(([, c]) => clusterSnapshot(c)),
+      removed: [...previousClusters.entries()].filter(([key]) => !currentClusters.has(key)).map(([, c]) => clusterSnapshot(c)),
+      changed: changedClusters
+    },
+    competitors: setChange(previous.competitors || [], current.competitors || []),
+    quick_wins: setChange((previous.quick_wins || []).map(c => c.main_keyword), (current.quick_wins || []).map(c => c.main_keyword)),
+    high_value: setChange((previous.high_value || []).map(c => c.main_keyword), (current.high_value || []).map(c => c.main_keyword))
+  };
+}
+
+function signed(value: number, digits: number = 0): string {
+  const formatted = Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  return `${value > 0 ? '+' : value < 0 ? '-' : '±'}${formatted}`;
+}
+
+function deltaText(metric: MetricDelta, digits: number = 0): string {
+  const pct = metric.change_pct !== null ? ` (${signed(metric.change_pct, 1)}%)` : '';
+  return `${metric.previous.toLocaleString(undefined, { maximumFractionDigits: digits })} → ${metric.current.toLocaleString(undefined, { maximumFractionDigits: digits })}  ${signed(metric.change, digits)}${pct}`;
+}
+
+function setChangeText(change: SetChange): string {
+  if (change.entered.length === 0 && change.left.length === 0) return '  No changes';
+  return [
+    ...change.entered.map(item => `  + ${item}`),
+    ...change.left.map(item => `  - ${item}`)
+  ].join('\n');
+}
+
+// Readable text diff in the style of generateTextReport
+export function formatReportDiff(diff: ReportDiff): string {
+  const previousDate = new Date(diff.previous.analysis_date).toLocaleString();
+  const currentDate = new Date(diff.current.analysis_date).toLocaleString();
+
+  return `
+═══════════════════════════════════════════════════════════════════════════════
+🔄 SEO KEYWORD REPORT COMPARISON
+═══════════════════════════════════════════════════════════════════════════════
+Website:                    ${diff.website}
+Previous Analysis:          ${previousDate}
+Current Analysis:           ${currentDate}
+${diff.warnings.map(warning => `⚠️  ${warning}`).join('\n')}
+
+📊 SUMMARY CHANGES
+═══════════════════════════════════════════════════════════════════════════════
+Keywords Analyzed:          ${deltaText(diff.summary.total_keywords_analyzed)}
+Clusters Identified:        ${deltaText(diff.summary.clusters_identified)}
+Monthly Search Volume:      ${deltaText(diff.summary.total_monthly_search_volume)}
+Traffic Potential:          ${deltaText(diff.summary.estimated_monthly_traffic_potential)}
+Average CPC:                ${deltaText(diff.summary.avg_cpc, 2)}
+
+🔑 KEYWORDS (${diff.keywords.added.length} added, ${diff.keywords.removed.length} removed, ${diff.keywords.changed.length} changed)
+═══════════════════════════════════════════════════════════════════════════════
+${[
+  ...diff.keywords.added.slice(0, 25).map(kw => `  + ${kw.keyword.padEnd(40)} │ Vol: ${kw.search_volume.toLocaleString().padStart(8)} │ Diff: ${kw.keyword_difficulty.toString().padStart(3)}/100`),
+  ...diff.keywords.removed.slice(0, 25).map(kw => `  - ${kw.keyword.padEnd(40)} │ Vol: ${kw.search_volume.toLocaleString().padStart(8)} │ Diff: ${kw.keyword_difficulty.toString().padStart(3)}/100`),
+  ...diff.keywords.changed.slice(0, 25).map(kw => `  ~ ${kw.keyword.padEnd(40)} │ Vol: ${signed(kw.search_volume.change).padStart(8)} │ CPC: ${signed(kw.cpc.change, 2).padStart(6)} │ Diff: ${signed(kw.keyword_difficulty.change).padStart(4)}`)
+].join('\n') || '  No changes'}
+
+📦 CLUSTERS (${diff.clusters.added.length} added, ${diff.clusters.removed.length} removed, ${diff.clusters.changed.length} changed)
+═══════════════════════════════════════════════════════════════════════════════
+${[
+  ...diff.clusters.added.map(c => `  + ${c.main_keyword} (${c.theme}, ${c.keywords_count} keywords, ${c.total_search_volume.toLocaleString()} searches/month)`),
+  ...diff.clusters.removed.map(c => `  - ${c.main_keyword} (${c.theme}, ${c.keywords_count} keywords, ${c.total_search_volume.toLocaleString()} searches/month)`),
+  ...diff.clusters.changed.map(c => `  ~ ${c.main_keyword}
+      Volume: ${deltaText(c.total_search_volume)}
+      CPC: ${deltaText(c.avg_cpc, 2)}
+      Difficulty: ${deltaText(c.avg_difficulty)}${c.keywords_added.length > 0 ? `
+      Keywords added: ${c.keywords_added.join(', ')}` : ''}${c.keywords_removed.length > 0 ? `
+      Keywords removed: ${c.keywords_removed.join(', ')}` : ''}`)
+].join('\n') || '  No changes'}
+
+🏆 COMPETITORS
+═══════════════════════════════════════════════════════════════════════════════
+${setChangeText(diff.competitors)}
+
+🚀 QUICK WINS
+═══════════════════════════════════════════════════════════════════════════════
+${setChangeText(diff.quick_wins)}
+
+💎 HIGH-VALUE TARGETS
+═══════════════════════════════════════════════════════════════════════════════
+${setChangeText(diff.high_value)}
+═══════════════════════════════════════════════════════════════════════════════
+`.trim().replace(/\n{2,}(?=\n📊)/, '\n');
+}
@@ -0,0 +1,192 @@
+// Scoring profiles: built-in and user-defined (scoring-profiles.json) weights and opportunity thresholds
+import * as fs from 'fs';
+import * as path from 'path';
+import { KeywordCluster, OpportunityThresholds, ResolvedThresholds, ScoringProfile, SearchIntent, ThresholdMode } from './types.js';
+
+export const THRESHOLD_MODES: ThresholdMode[] = ['absolute', 'percentile'];
+
+const SEARCH_INTENTS: SearchIntent[] = ['transactional', 'commercial', 'local', 'navigational', 'informational'];
+const COMPETITION_LEVELS = ['high', 'medium', 'low', 'unknown'] as const;
+
+// The weights and thresholds the tool used before profiles existed
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  description: 'General-purpose weights: quick wins below difficulty 40, high value above a commercial score of 1,000',
+  intent_multipliers: {
+    transactional: 2.5,
+    commercial: 2,
+    local: 1.6,
+    navigational: 0.6,
+    informational: 0.8
+  },
+  competition_levels: { high: 0.8, medium: 0.5, low: 0.2, unknown: 0.3 },
+  thresholds: {
+    mode: 'absolute',
+    quick_win_max_difficulty: 40,
+    high_value_min_commercial_score: 1000,
+    quick_win_difficulty_percentile: 25,
+    high_value_score_percentile: 80
+  }
+};
+
+const BUILT_IN_PROFILES: Record<string, ScoringProfile> = {
+  default: DEFAULT_SCORING_PROFILE,
+  local_service: {
+    name: 'local_service',
+    description: 'Local service businesses: small search volumes, local and transactional intent weighted up',
+    intent_multipliers: {
+      transactional: 2.5,
+      commercial: 1.8,
+      local: 2.4,
+      navigational: 0.5,
+      informational: 0.6
+    },
+    competition_levels: DEFAULT_SCORING_PROFILE.competition_levels,
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, quick_win_max_difficulty: 45, high_value_min_commercial_score: 250 }
+  },
+  national: {
+    name: 'national',
+    description: 'National SaaS and e-commerce: large volumes, research intent and content weighted up, stricter thresholds',
+    intent_multipliers: {
+      transactional: 2.5,
+      commercial: 2.2,
+      local: 1,
+      navigational: 0.5,
+      informational: 1
+    },
+    competition_levels: DEFAULT_SCORING_PROFILE.competition_levels,
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, quick_win_max_difficulty: 30, high_value_min_commercial_score: 10000 }
+  },
+  relative: {
+    ...DEFAULT_SCORING_PROFILE,
+    name: 'relative',
+    description: 'Default weights with thresholds relative to the run: the easiest quarter of clusters and the top fifth by commercial score',
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, mode: 'percentile' }
+  }
+};
+
+export function getScoringProfilesPath(): string {
+  return process.env.SCORING_PROFILES_PATH || path.join(process.cwd(), 'scoring-profiles.json');
+}
+
+function validateProfile(profile: ScoringProfile, source: string): void {
+  const fail = (message: string) => {
+    throw new Error(`Scoring profile "${profile.name}" in ${source}: ${message}`);
+  };
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  for (const [intent, multiplier] of Object.entries(profile.intent_multipliers)) {
+    if (!SEARCH_INTENTS.includes(intent as SearchIntent)) fail(`unknown intent "${intent}" in intent_multipliers (use ${SEARCH_INTENTS.join(', ')}).`);
+    if (!isNumber(multiplier) || multiplier < 0) fail(`intent_multipliers.${intent} must be a non-negative number.`);
+  }
+  for (const [level, competition] of Object.entries(profile.competition_levels)) {
+    if (!(COMPETITION_LEVELS as readonly string[]).includes(level)) fail(`unknown level "${level}" in competition_levels (use ${COMPETITION_LEVELS.join(', ')}).`);
+    if (!isNumber(competition) || competition < 0 || competition > 1) fail(`competition_levels.${level} must be a number between 0 and 1.`);
+  }
+
+  const thresholds = profile.thresholds;
+  if (!THRESHOLD_MODES.includes(thresholds.mode)) fail(`thresholds.mode must be one of: ${THRESHOLD_MODES.join(', ')}.`);
+  if (!isNumber(thresholds.quick_win_max_difficulty)) fail('thresholds.quick_win_max_difficulty must be a number.');
+  if (!isNumber(thresholds.high_value_min_commercial_score)) fail('thresholds.high_value_min_commercial_score must be a number.');
+  for (const key of ['quick_win_difficulty_percentile', 'high_value_score_percentile'] as const) {
+    if (!isNumber(thresholds[key]) || thresholds[key] < 0 || thresholds[key] > 100) fail(`thresholds.${key} must be a number between 0 and 100.`);
+  }
+}
+
+// Profiles in the file are keyed by name and override built-in profiles of the same name. Each one starts from the
+// profile named in "extends" (default: "default", or any profile defined earlier in the file) and replaces what it sets.
+export function loadScoringProfiles(): Record<string, ScoringProfile> {
+  const profiles: Record<string, ScoringProfile> = { ...BUILT_IN_PROFILES };
+  const file = getScoringProfilesPath();
+  if (!fs.existsSync(file)) {
+    if (process.env.SCORING_PROFILES_PATH) {
+      throw new Error(`Scoring profiles file not found: ${file}`);
+    }
+    return profiles;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read scoring profiles from ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${file} must contain a JSON object of scoring profiles keyed by name.`);
+  }
+
+  for (const [name, config] of Object.entries(parsed as Record<string, any>)) {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`Scoring profile "${name}" in ${file} must be an object.`);
+    }
+    const baseName = config.extends ?? 'default';
+    const base = profiles[baseName];
+    if (!base) {
+      throw new Error(`Scoring profile "${name}" in ${file} extends unknown profile "${baseName}".`);
+    }
+    const profile: ScoringProfile = {
+      name,
+      description: typeof config.description === 'string' ? config.description : `Custom profile based on ${base.name}`,
+      intent_multipliers: { ...base.intent_multipliers, ...config.intent_multipliers },
+      competition_levels: { ...base.competition_levels, ...config.competition_levels },
+      thresholds: { ...base.thresholds, ...config.thresholds }
+    };
+    validateProfile(profile, file);
+    profiles[name] = profile;
+  }
+  return profiles;
+}
+
+// The named profile (default: SCORING_PROFILE, then "default"), optionally switched to another threshold mode
+export function resolveScoringProfile(name?: string, thresholdMode?: ThresholdMode): ScoringProfile {
+  const profiles = loadScoringProfiles();
+  const selected = name || process.env.SCORING_PROFILE || 'default';
+  const profile = profiles[selected];
+  if (!profile) {
+    throw new Error(`Unknown scoring profile "${selected}". Available profiles: ${Object.keys(profiles).join(', ')}.`);
+  }
+  if (thresholdMode && thresholdMode !== profile.thresholds.mode) {
+    return { ...profile, thresholds: { ...profile.thresholds, mode: thresholdMode } };
+  }
+  return profile;
+}
+
+// Nearest-rank percentile; NaN when there are no values, which no cluster passes
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p / 100 * sorted.length) - 1))];
+}
+
+// Fixed thresholds as they are; percentile thresholds from the difficulties and commercial scores of this run's clusters
+export function resolveThresholds(thresholds: OpportunityThresholds, clusters: KeywordCluster[]): ResolvedThresholds {
+  if (thresholds.mode === 'absolute') {
+    return {
+      mode: 'absolute',
+      quick_win_max_difficulty: thresholds.quick_win_max_difficulty,
+      high_value_min_commercial_score: thresholds.high_value_min_commercial_score
+    };
+  }
+  const difficulties = clusters.map(c => c.avg_difficulty).filter(d => !isNaN(d) && d > 0);
+  const scores = clusters.map(c => c.total_commercial_score).filter(s => !isNaN(s));
+  return {
+    mode: 'percentile',
+    quick_win_max_difficulty: percentile(difficulties, thresholds.quick_win_difficulty_percentile),
+    high_value_min_commercial_score: percentile(scores, thresholds.high_value_score_percentile)
+  };
+}
+
+// Absolute thresholds are exclusive, as they always were; a percentile threshold is a cluster's own value, so it is inclusive
+export function isLowDifficulty(cluster: KeywordCluster, thresholds: ResolvedThresholds): boolean {
+  if (isNaN(cluster.avg_difficulty) || cluster.avg_difficulty <= 0) return false;
+  return thresholds.mode === 'absolute'
+    ? cluster.avg_difficulty < thresholds.quick_win_max_difficulty
+    : cluster.avg_difficulty <= thresholds.quick_win_max_difficulty;
+}
+
+export function isHighValue(cluster: KeywordCluster, thresholds: ResolvedThresholds): boolean {
+  if (isNaN(cluster.total_commercial_score)) return false;
+  return thresholds.mode === 'absolute'
+    ? cluster.total_commercial_score > thresholds.high_value_min_commercial_score
+    : cluster.total_commercial_score >= thresholds.high_value_min_commercial_score;
+}
@@ -0,0 +1,116 @@
+// SERP feature extraction from DataForSEO advanced SERP items, and their effect on difficulty and CTR
+import { KeywordData, SerpFeatures } from './types.js';
+
+// Average CTR of the #1 organic result on a SERP without features (the first point of the default CTR curve in traffic.ts)
+const BASE_TOP_CTR = 0.28;
+
+// Share of organic clicks each feature takes away (ads are per ad, up to four)
+const CTR_LOSS: Record<string, number> = {
+  featured_snippet: 0.1,
+  answer_box: 0.12,
+  local_pack: 0.15,
+  shopping: 0.1,
+  popular_products: 0.08,
+  knowledge_graph: 0.05,
+  people_also_ask: 0.03,
+  video: 0.03,
+  top_stories: 0.03,
+  images: 0.02
+};
+const CTR_LOSS_PER_AD = 0.04;
+
+// Difficulty points added when a feature is present, as entrenched features are hard to displace
+const DIFFICULTY_POINTS: Record<string, number> = {
+  featured_snippet: 5,
+  answer_box: 4,
+  knowledge_graph: 3,
+  local_pack: 3,
+  shopping: 3,
+  popular_products: 2
+};
+const DIFFICULTY_POINTS_MANY_ADS = 5;
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export function parseSerpFeatures(items: any[]): SerpFeatures {
+  const types = [...new Set(items.map(item => item.type).filter((type: string) => type && type !== 'organic'))];
+
+  const snippet = items.find(item => item.type === 'featured_snippet');
+  const questions = items
+    .filter(item => item.type === 'people_also_ask')
+    .flatMap(item => item.items || [])
+    .map((element: any) => (element.title || '').trim())
+    .filter((question: string) => question.length > 0);
+
+  // Shopping-style blocks hold their products in a nested items array
+  const shoppingCount = items
+    .filter(item => item.type === 'shopping' || item.type === 'popular_products')
+    .reduce((sum, item) => sum + (Array.isArray(item.items) ? item.items.length : 1), 0);
+
+  const features: SerpFeatures = {
+    types,
+    featured_snippet: snippet ? {
+      domain: snippet.domain || domainOf(snippet.url || ''),
+      url: snippet.url || '',
+      title: snippet.title || ''
+    } : null,
+    people_also_ask: [...new Set(questions)],
+    ads_count: items.filter(item => item.type === 'paid').length,
+    shopping_count: shoppingCount,
+    local_pack: types.includes('local_pack'),
+    expected_ctr: BASE_TOP_CTR
+  };
+  features.expected_ctr = estimateTopCtr(features);
+  return features;
+}
+
+// Share of organic clicks left once the SERP features above the results have taken theirs
+export function organicClickShare(features: SerpFeatures): number {
+  const featureLoss = features.types.reduce((sum, type) => sum + (CTR_LOSS[type] || 0), 0);
+  const adLoss = Math.min(features.ads_count, 4) * CTR_LOSS_PER_AD;
+  return Math.max(0.3, 1 - featureLoss - adLoss);
+}
+
+// Expected CTR of the #1 organic result once the SERP features above it have taken their share
+export function estimateTopCtr(features: SerpFeatures): number {
+  return Number((BASE_TOP_CTR * organicClickShare(features)).toFixed(3));
+}
+
+export function serpFeatureDifficulty(features: SerpFeatures): number {
+  const featurePoints = features.types.reduce((sum, type) => sum + (DIFFICULTY_POINTS[type] || 0), 0);
+  return featurePoints + (features.ads_count >= 3 ? DIFFICULTY_POINTS_MANY_ADS : 0);
+}
+
+export interface SerpFeatureSummary {
+  // Keywords in the group showing each feature
+  feature_counts: Record<string, number>;
+  snippet_owners: string[];
+  people_also_ask: string[];
+  total_ads: number;
+  avg_expected_ctr: number | null;
+}
+
+// Roll keyword-level SERP features up for a cluster
+export function summarizeSerpFeatures(keywords: KeywordData[]): SerpFeatureSummary {
+  const withFeatures = keywords.map(kw => kw.serp_features).filter((f): f is SerpFeatures => !!f);
+  const featureCounts: Record<string, number> = {};
+  withFeatures.forEach(features => features.types.forEach(type => {
+    featureCounts[type] = (featureCounts[type] || 0) + 1;
+  }));
+
+  return {
+    feature_counts: featureCounts,
+    snippet_owners: [...new Set(withFeatures.map(f => f.featured_snippet?.domain).filter((d): d is string => !!d))],
+    people_also_ask: [...new Set(withFeatures.flatMap(f => f.people_also_ask))],
+    total_ads: withFeatures.reduce((sum, f) => sum + f.ads_count, 0),
+    avg_expected_ctr: withFeatures.length > 0
+      ? Number((withFeatures.reduce((sum, f) => sum + f.expected_ctr, 0) / withFeatures.length).toFixed(3))
+      : null
+  };
+}
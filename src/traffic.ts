@@ -0,0 +1,103 @@
+// Traffic and value projection: clicks a keyword can earn at the position its difficulty makes achievable
+import { KeywordCluster, KeywordData, TrafficProjection, TrafficScenario, TrafficScenarios, TrafficTotals } from './types.js';
+import { organicClickShare } from './serp-features.js';
+
+// Organic CTR of positions 1-20 on a SERP without features; override with CTR_CURVE (comma-separated rates for positions 1, 2, 3, ...)
+export const DEFAULT_CTR_CURVE = [
+  0.28, 0.155, 0.11, 0.08, 0.061, 0.048, 0.038, 0.031, 0.026, 0.022,
+  0.012, 0.011, 0.01, 0.009, 0.008, 0.007, 0.006, 0.006, 0.005, 0.005
+];
+
+export const TRAFFIC_SCENARIOS: TrafficScenario[] = ['conservative', 'expected', 'optimistic'];
+
+// Position a new page can reach in each scenario, by the highest keyword difficulty in the band
+const POSITION_BANDS: { maxDifficulty: number, positions: Record<TrafficScenario, number> }[] = [
+  { maxDifficulty: 15, positions: { optimistic: 1, expected: 3, conservative: 5 } },
+  { maxDifficulty: 30, positions: { optimistic: 2, expected: 4, conservative: 7 } },
+  { maxDifficulty: 50, positions: { optimistic: 3, expected: 6, conservative: 10 } },
+  { maxDifficulty: 70, positions: { optimistic: 5, expected: 9, conservative: 15 } },
+  { maxDifficulty: 85, positions: { optimistic: 8, expected: 14, conservative: 25 } },
+  { maxDifficulty: Infinity, positions: { optimistic: 12, expected: 20, conservative: 40 } }
+];
+
+// Same fallback the cluster averages use for keywords without a difficulty
+const DEFAULT_DIFFICULTY = 30;
+
+export function getCtrCurve(): { curve: number[], source: TrafficScenarios['ctr_curve_source'] } {
+  const raw = process.env.CTR_CURVE;
+  if (!raw || !raw.trim()) {
+    return { curve: DEFAULT_CTR_CURVE, source: 'default' };
+  }
+  const curve = raw.split(',').map(value => value.trim() ? Number(value) : NaN);
+  if (curve.some(value => isNaN(value) || value < 0 || value > 1)) {
+    console.error(`Ignoring CTR_CURVE "${raw}": expected comma-separated click-through rates between 0 and 1. Using the default curve.`);
+    return { curve: DEFAULT_CTR_CURVE, source: 'default' };
+  }
+  return { curve, source: 'custom' };
+}
+
+// A keyword the site already ranks higher for keeps its current position
+export function achievablePosition(keyword: KeywordData, scenario: TrafficScenario): number {
+  const difficulty = Number.isFinite(keyword.keyword_difficulty) ? keyword.keyword_difficulty : DEFAULT_DIFFICULTY;
+  const target = POSITION_BANDS.find(band => difficulty <= band.maxDifficulty)!.positions[scenario];
+  return keyword.own_position != null ? Math.min(keyword.own_position, target) : target;
+}
+
+// Unrounded, so that cluster and report totals add up exactly
+function projectKeyword(keyword: KeywordData, scenario: TrafficScenario, curve: number[]): TrafficProjection {
+  const position = achievablePosition(keyword, scenario);
+  const positionCtr = curve[position - 1] ?? 0;
+  // Without a collected SERP the features are unknown and the curve is used as is
+  const ctr = keyword.serp_features ? positionCtr * organicClickShare(keyword.serp_features) : positionCtr;
+  const volume = Number.isFinite(keyword.search_volume) ? keyword.search_volume : 0;
+  const cpc = Number.isFinite(keyword.cpc) ? keyword.cpc : 0;
+  const clicks = volume * ctr;
+  return { position, ctr, clicks, value: clicks * cpc };
+}
+
+const rounded = (totals: TrafficTotals): TrafficTotals => ({
+  clicks: Math.round(totals.clicks),
+  value: Number(totals.value.toFixed(2))
+});
+
+// Set each keyword's and cluster's expected-scenario projection and total every scenario over the clusters
+export function projectTraffic(clusters: KeywordCluster[]): TrafficScenarios {
+  const { curve, source } = getCtrCurve();
+  const totals: Record<TrafficScenario, TrafficTotals> = {
+    conservative: { clicks: 0, value: 0 },
+    expected: { clicks: 0, value: 0 },
+    optimistic: { clicks: 0, value: 0 }
+  };
+
+  for (const cluster of clusters) {
+    const clusterTotals: TrafficTotals = { clicks: 0, value: 0 };
+    for (const keyword of cluster.keywords) {
+      for (const scenario of TRAFFIC_SCENARIOS) {
+        const projection = projectKeyword(keyword, scenario, curve);
+        totals[scenario].clicks += projection.clicks;
+        totals[scenario].value += projection.value;
+        if (scenario === 'expected') {
+          clusterTotals.clicks += projection.clicks;
+          clusterTotals.value += projection.value;
+          keyword.traffic_projection = {
+            position: projection.position,
+            ctr: Number(projection.ctr.toFixed(4)),
+            clicks: Number(projection.clicks.toFixed(1)),
+            value: Number(projection.value.toFixed(2))
+          };
+        }
+      }
+    }
+    const clusterRounded = rounded(clusterTotals);
+    cluster.projected_clicks = clusterRounded.clicks;
+    cluster.projected_value = clusterRounded.value;
+  }
+
+  return {
+    ctr_curve: curve,
+    ctr_curve_source: source,
+    conservative: rounded(totals.conservative),
+    expected: rounded(totals.expected),
+    optimistic: rounded(totals.optimistic)
+  };
+}
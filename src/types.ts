@@ -0,0 +1,372 @@
+// Types based on the original app.js
+export interface KeywordData {
+  keyword: string;
+  search_volume: number;
+  cpc: number;
+  competition: number;
+  competition_level: string;
+  keyword_difficulty: number;
+  serp_urls: SerpUrl[];
+  commercial_score: number;
+  is_seed: boolean;
+  source: KeywordSource;
+  intent: KeywordIntent;
+  // Non-organic SERP features seen for this keyword (null when no SERP was collected)
+  serp_features: SerpFeatures | null;
+  // Position and URL of the analyzed site in this keyword's collected SERP (null when it does not appear)
+  own_position: number | null;
+  own_url: string | null;
+  // Set on keyword-gap keywords: the competitors ranking for it
+  competitor_rankings?: CompetitorRanking[];
+  // Set on expanded keywords (source "related"): the strategy and seed that produced it
+  expansion?: KeywordExpansion;
+  // Set when the keyword names the analyzed site's brand or a competitor's (see KeywordFilters)
+  brand?: BrandType;
+  // Expected-scenario traffic once the keyword reaches its achievable position; absent from reports saved before traffic projection
+  traffic_projection?: TrafficProjection;
+}
+
+export type TrafficScenario = 'conservative' | 'expected' | 'optimistic';
+
+// Monthly organic clicks at the position a keyword's difficulty makes achievable; value is clicks x CPC
+export interface TrafficProjection {
+  position: number;
+  // CTR from the position curve after SERP feature losses; 0 beyond the end of the curve
+  ctr: number;
+  clicks: number;
+  value: number;
+}
+
+export interface TrafficTotals {
+  clicks: number;
+  value: number;
+}
+
+export interface TrafficScenarios {
+  // CTR by position (index 0 is position 1) the projection used
+  ctr_curve: number[];
+  ctr_curve_source: 'default' | 'custom';
+  conservative: TrafficTotals;
+  expected: TrafficTotals;
+  optimistic: TrafficTotals;
+}
+
+export interface CompetitorRanking {
+  domain: string;
+  position: number;
+  url: string;
+}
+
+export interface SerpFeatures {
+  // DataForSEO item types other than organic (e.g., featured_snippet, people_also_ask, local_pack, paid, shopping)
+  types: string[];
+  featured_snippet: { domain: string, url: string, title: string } | null;
+  people_also_ask: string[];
+  ads_count: number;
+  shopping_count: number;
+  local_pack: boolean;
+  // Expected click-through rate of the #1 organic result given the features above it
+  expected_ctr: number;
+}
+
+export type SearchIntent = 'informational' | 'navigational' | 'commercial' | 'transactional' | 'local';
+
+// A keyword can carry several intents ("best plumber near me" is commercial and local); primary is the most confident
+export interface KeywordIntent {
+  primary: SearchIntent | null;
+  confidence: number;
+  labels: { intent: SearchIntent, confidence: number }[];
+  // Matched modifiers and SERP features (prefixed "serp:") behind the labels
+  signals: string[];
+}
+
+// absolute: thresholds are fixed values; percentile: they are picked from the distribution of the run's clusters
+export type ThresholdMode = 'absolute' | 'percentile';
+
+export interface OpportunityThresholds {
+  mode: ThresholdMode;
+  // Absolute mode: quick wins are not-ranking clusters with avg_difficulty below this, high-value clusters have a total_commercial_score above this
+  quick_win_max_difficulty: number;
+  high_value_min_commercial_score: number;
+  // Percentile mode: quick wins are at or below this percentile of the run's cluster difficulties, high-value clusters at or above this percentile of their commercial scores
+  quick_win_difficulty_percentile: number;
+  high_value_score_percentile: number;
+}
+
+// Weights behind commercial_score and the thresholds that pick quick wins and high-value targets
+export interface ScoringProfile {
+  name: string;
+  description: string;
+  // Commercial score multiplier at full confidence for each primary intent
+  intent_multipliers: Record<SearchIntent, number>;
+  // Competition (0-1) assumed for DataForSEO competition levels when no numeric value is given; unknown covers any other level
+  competition_levels: { high: number, medium: number, low: number, unknown: number };
+  thresholds: OpportunityThresholds;
+}
+
+// The thresholds a report's opportunities were selected with, after percentiles are resolved against the run
+export interface ResolvedThresholds {
+  mode: ThresholdMode;
+  quick_win_max_difficulty: number;
+  high_value_min_commercial_score: number;
+}
+
+// ranking: best own position 1-3, striking_distance: 4-20, not_ranking: absent from the collected SERPs
+export type RankingStatus = 'ranking' | 'striking_distance' | 'not_ranking';
+
+// Where a keyword entered the pipeline: a user-supplied seed, an AI-generated seed, DataForSEO expansion,
+// or a competitor keyword gap
+export type KeywordSource = 'user' | 'ai' | 'related' | 'gap';
+
+export type SeedMode = 'ai' | 'merge' | 'replace';
+
+// related: Google Ads keywords for keywords; questions and suggestions: DataForSEO Labs keyword suggestions per seed
+// (questions keeps who/what/how/why/can forms); modifiers: templates such as "best {seed}" applied to seeds
+export type ExpansionStrategy = 'related' | 'questions' | 'suggestions' | 'modifiers';
+
+export interface KeywordExpansion {
+  strategy: ExpansionStrategy;
+  // For related keywords, the seed sharing the most words with the keyword; null when none does
+  seed: string | null;
+}
+
+export interface ExpansionOptions {
+  strategies?: ExpansionStrategy[];
+  // Seeds the questions, suggestions and modifiers strategies use
+  seeds?: number;
+  modifierTemplates?: string[];
+}
+
+export type BrandType = 'own' | 'competitor';
+
+// none: brand keywords are kept (tagged navigational); competitors: competitor brands are dropped; all: both are dropped
+export type BrandDropMode = 'none' | 'competitors' | 'all';
+
+// Keyword filters from keyword-filters.json merged with the filters of the call. Terms and brands match whole words
+// or phrases, patterns are case-insensitive regular expressions, and word counts and volumes are inclusive.
+export interface KeywordFilters {
+  exclude_terms: string[];
+  exclude_patterns: string[];
+  // When either is set, keywords must contain one of the terms or match one of the patterns
+  include_terms: string[];
+  include_patterns: string[];
+  // Replaces the built-in volume floors (related keywords above 50, clustered keywords above 20) when set
+  min_volume: number | null;
+  max_volume: number | null;
+  min_words: number | null;
+  max_words: number | null;
+  own_brands: string[];
+  competitor_brands: string[];
+  drop_brands: BrandDropMode;
+  // Built-in removal of developer terms ("api", "server", "code") from AI seeds and of code-heavy sentences from page content
+  technical_filter: boolean;
+}
+
+// seeds: AI-generated seeds; related: related and expanded keywords as they are added; clustering: every keyword before clustering
+export type FilterStage = 'seeds' | 'related' | 'clustering';
+
+export type FilterReason =
+  | 'technical'
+  | 'excluded_term'
+  | 'excluded_pattern'
+  | 'not_included'
+  | 'min_volume'
+  | 'max_volume'
+  | 'word_count'
+  | 'own_brand'
+  | 'competitor_brand';
+
+export interface FilteredKeyword {
+  keyword: string;
+  stage: FilterStage;
+  reason: FilterReason;
+  // The term, pattern or limit that matched
+  detail: string;
+}
+
+export interface FilterSummary {
+  total: number;
+  by_reason: Partial<Record<FilterReason, number>>;
+  by_stage: Partial<Record<FilterStage, number>>;
+  // Kept keywords tagged as brand keywords
+  brand_keywords: Record<BrandType, number>;
+  // The first 200 removals
+  keywords: FilteredKeyword[];
+}
+
+// word_overlap groups keywords sharing significant words; serp_overlap groups keywords whose top 10 results share URLs
+export type ClusterMode = 'word_overlap' | 'serp_overlap';
+
+export interface ClusterOptions {
+  mode?: ClusterMode;
+  minSharedUrls?: number;
+  maxClusterSize?: number;
+  maxClusters?: number;
+}
+
+// homepage scrapes only the given URL; sitemap and firecrawl_map discover further pages to scrape
+export type CrawlMode = 'homepage' | 'sitemap' | 'firecrawl_map';
+
+export interface CrawlOptions {
+  mode?: CrawlMode;
+  maxPages?: number;
+  // Path patterns such as "/products/*"; patterns without * match as prefixes
+  includePaths?: string[];
+  excludePaths?: string[];
+}
+
+// live answers each keyword data request within seconds; standard posts tasks to the cheaper queue and polls for the results
+export type DataPriority = 'live' | 'standard';
+
+// A page that fed seed generation, as recorded in the report
+export interface CrawledPage {
+  url: string;
+  title: string;
+  description: string;
+  word_count: number;
+}
+
+export interface SerpUrl {
+  url: string;
+  title: string;
+  domain: string;
+  position: number;
+}
+
+export interface KeywordCluster {
+  cluster_id: number;
+  main_keyword: string;
+  theme: string;
+  keywords: KeywordData[];
+  total_search_volume: number;
+  avg_cpc: number;
+  avg_difficulty: number;
+  total_commercial_score: number;
+  competitor_domains: string[];
+  ai_competitors?: string[];
+  ranking_status: RankingStatus;
+  best_own_position: number | null;
+  ranking_keyword_count: number;
+  // Expected-scenario sums of the keywords' traffic projections; absent from reports saved before traffic projection
+  projected_clicks?: number;
+  projected_value?: number;
+}
+
+export interface KeywordGapOptions {
+  // How many competitor domains to compare against (default 5)
+  competitors?: number;
+  // Minimum competitors that must rank for a keyword for it to count as a gap (default 2)
+  minCompetitors?: number;
+  // Ranked keywords fetched per domain (default 500)
+  keywordsPerDomain?: number;
+}
+
+export interface KeywordGapAnalysis {
+  own_domain: string;
+  competitors: { domain: string, ranked_keywords: number }[];
+  own_ranked_keywords: number;
+  // Competitors whose ranked keywords could not be fetched, left out of the gap; absent from older reports
+  failed_competitors?: string[];
+  min_competitors: number;
+  total_gap_keywords: number;
+  clusters: KeywordCluster[];
+}
+
+export interface AnalysisReport {
+  analysis_summary: {
+    source_website: string;
+    business_type: string;
+    analysis_date: string;
+    location: string;
+    location_code: number;
+    language: string;
+    language_code: string;
+    currency: string;
+    seed_mode: SeedMode;
+    user_seed_count: number;
+    ai_seed_count: number;
+    clustering_mode: ClusterMode;
+    crawl_mode: CrawlMode;
+    own_domain: string;
+    ranking_clusters: number;
+    striking_distance_clusters: number;
+    pages_analyzed: number;
+    total_keywords_analyzed: number;
+    clusters_identified: number;
+    total_monthly_search_volume: number;
+    // Expected-scenario projected clicks (older reports: 30% of the search volume)
+    estimated_monthly_traffic_potential: number;
+    avg_cpc: number;
+    // Absent from reports saved before traffic projection
+    traffic_scenarios?: TrafficScenarios;
+    // Absent from reports saved before scoring profiles, which used the default profile's absolute thresholds
+    scoring_profile?: string;
+    opportunity_thresholds?: ResolvedThresholds;
+    // Absent from reports saved before expansion strategies, which used related keywords only
+    expansion_strategies?: ExpansionStrategy[];
+  };
+  clusters: KeywordCluster[];
+  quick_wins: KeywordCluster[];
+  high_value: KeywordCluster[];
+  competitors: string[];
+  // Absent from reports saved before multi-page crawling
+  pages?: CrawledPage[];
+  // Present when the keyword gap step ran
+  keyword_gap?: KeywordGapAnalysis;
+  // Absent from reports saved before cost tracking
+  cost_breakdown?: CostBreakdown;
+  // Calls that still failed after retries; absent from reports saved before failure reporting
+  failures?: StepFailure[];
+  // Keywords removed by the keyword filters; absent from reports saved before keyword filters
+  filtered?: FilterSummary;
+}
+
+// One provider call that could not be recovered, e.g. the SERP for a single keyword
+export interface StepFailure {
+  step: CostStep;
+  item: string;
+  error: string;
+}
+
+// Pipeline steps that spend money, used to attribute each call
+export type CostStep = 'scrape' | 'seed_generation' | 'keyword_data' | 'competitor_research' | 'keyword_gap' | 'content_brief' | 'other';
+
+export interface CostLine {
+  calls: number;
+  cost_usd: number;
+}
+
+export interface CostBreakdown {
+  currency: 'USD';
+  total_usd: number;
+  calls: number;
+  by_provider: Record<string, CostLine>;
+  by_step: Record<string, CostLine>;
+  budget_usd: number | null;
+  budget_exceeded: boolean;
+  // Steps (or parts of steps) not run because they would have exceeded the budget
+  skipped_steps: CostStep[];
+}
+
+// Dry-run price of an analysis, before any paid call is made
+export interface CostEstimate {
+  currency: 'USD';
+  total_usd: number;
+  calls: number;
+  by_provider: Record<string, CostLine>;
+  by_step: Record<string, CostLine>;
+  assumptions: string[];
+}
+
+// Metadata written alongside the report by saveReportToFile
+export interface ReportMetadata {
+  generated_at: string;
+  website_url: string;
+  business_type: string;
+  domain: string;
+  tool_version: string;
+  // The full profile, so the report can be reproduced after the profiles file changes
+  scoring_profile?: ScoringProfile;
+}
+
+export type SavedReport = AnalysisReport & { metadata: ReportMetadata };